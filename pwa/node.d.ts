@@ -0,0 +1,22 @@
+// The few Node APIs the precache plugin uses; the repo does not depend on
+// @types/node just for the build config.
+
+declare module "node:crypto" {
+  export function createHash(algorithm: string): {
+    update(data: string | Uint8Array): void;
+    digest(encoding: "hex"): string;
+  };
+}
+
+declare module "node:fs" {
+  export function readFileSync(path: string): Uint8Array;
+  export function readFileSync(path: string, encoding: "utf8"): string;
+  export function readdirSync(path: string): string[];
+  export function statSync(path: string): { isDirectory(): boolean };
+}
+
+declare module "node:path" {
+  export const sep: string;
+  export function join(...parts: string[]): string;
+  export function relative(from: string, to: string): string;
+}
@@ -0,0 +1,67 @@
+import { createHash } from "node:crypto";
+import { readFileSync, readdirSync, statSync } from "node:fs";
+import { join, relative, sep } from "node:path";
+import type { Plugin, ResolvedConfig } from "vite";
+
+const WORKER_FILE = "sw.js";
+const TEMPLATE = "pwa/service-worker.js";
+
+function listFiles(dir: string): string[] {
+  let entries: string[];
+  try {
+    entries = readdirSync(dir);
+  } catch {
+    return [];
+  }
+  return entries.flatMap((name) => {
+    const path = join(dir, name);
+    return statSync(path).isDirectory() ? listFiles(path) : [path];
+  });
+}
+
+/**
+ * Emits `sw.js` with the list of every file in the build: the chunks Vite
+ * wrote plus the public directory. Its cache name is a hash of their
+ * contents, so any change to code or data ships as a new version.
+ */
+export function precacheServiceWorker(): Plugin {
+  let config: ResolvedConfig;
+
+  return {
+    name: "dl-visualizer-precache",
+    apply: "build",
+    configResolved(resolved) {
+      config = resolved;
+    },
+    generateBundle(_options, bundle) {
+      const hash = createHash("sha256");
+      // index.html is emitted after this hook runs; its content follows from the chunk names.
+      const files = new Set<string>(["./", "./index.html"]);
+
+      for (const [fileName, output] of Object.entries(bundle)) {
+        files.add(`./${fileName}`);
+        hash.update(fileName);
+        hash.update(output.type === "chunk" ? output.code : output.source);
+      }
+
+      const publicDir = config.publicDir;
+      for (const path of publicDir ? listFiles(publicDir) : []) {
+        const name = relative(publicDir, path).split(sep).join("/");
+        files.add(`./${name}`);
+        hash.update(name);
+        hash.update(readFileSync(path));
+      }
+
+      const precache = [...files].sort();
+      this.emitFile({
+        type: "asset",
+        fileName: WORKER_FILE,
+        source: [
+          `const PRECACHE = ${JSON.stringify(precache)};`,
+          `const VERSION = ${JSON.stringify(hash.digest("hex").slice(0, 12))};`,
+          readFileSync(join(config.root, TEMPLATE), "utf8"),
+        ].join("\n"),
+      });
+    },
+  };
+}
@@ -0,0 +1,47 @@
+// Offline support. The build prepends `PRECACHE` (every emitted chunk plus
+// everything in public/, such as data/pca-presets.json) and `VERSION` (a hash
+// of those files), so each deploy installs a fresh cache next to the old one.
+// The new worker waits until the page asks it to take over, which is what the
+// app's "new version available" prompt does.
+
+/* global PRECACHE, VERSION */
+
+const CACHE = `dl-visualizer-${VERSION}`;
+const scoped = (path) => new URL(path, self.registration.scope).href;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(PRECACHE.map(scoped))));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key.startsWith("dl-visualizer-") && key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "skip-waiting") self.skipWaiting();
+});
+
+async function fromCacheOrNetwork(request) {
+  const cache = await caches.open(CACHE);
+  // Every link is the app shell with a different query string.
+  if (request.mode === "navigate") {
+    return (await cache.match(scoped("./index.html"))) ?? fetch(request);
+  }
+  const cached = await cache.match(request, { ignoreSearch: true });
+  if (cached) return cached;
+  const response = await fetch(request);
+  // Files added after this version was built are kept once they have been fetched.
+  if (response.ok && response.type === "basic") cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET" || new URL(request.url).origin !== self.location.origin) return;
+  event.respondWith(fromCacheOrNetwork(request));
+});
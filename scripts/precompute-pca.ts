@@ -1,5 +1,5 @@
-import { SVD } from "svd-js";
 import mnist from "mnist";
+import { argmax, at, dot, fromRows, leadingShare, squaredDistance, standardDeviation, svd } from "../src/lib/math";
 
 declare const Bun: {
   write: (path: string, data: string) => Promise<number>;
@@ -25,33 +25,6 @@ type PcaModel = {
   eigenvalues: number[];
 };
 
-function labelFromOneHot(output: number[]) {
-  let maxVal = -Infinity;
-  let maxIdx = 0;
-  for (let i = 0; i < output.length; i += 1) {
-    if (output[i] > maxVal) {
-      maxVal = output[i];
-      maxIdx = i;
-    }
-  }
-  return maxIdx;
-}
-
-function dot(a: number[], b: number[]) {
-  let s = 0;
-  for (let i = 0; i < a.length; i += 1) s += a[i] * b[i];
-  return s;
-}
-
-function squaredDistance(a: number[], b: number[]) {
-  let s = 0;
-  for (let i = 0; i < a.length; i += 1) {
-    const d = a[i] - b[i];
-    s += d * d;
-  }
-  return s;
-}
-
 function projectVector(vector: number[], pca: PcaModel, k: number) {
   const centered = vector.map((v, i) => v - pca.mean[i]);
   const use = Math.min(k, pca.components.length);
@@ -62,18 +35,6 @@ function projectVector(vector: number[], pca: PcaModel, k: number) {
   return coeffs;
 }
 
-function std(values: number[]) {
-  const n = values.length;
-  if (n <= 1) return 0;
-  const mean = values.reduce((a, b) => a + b, 0) / n;
-  let acc = 0;
-  for (const value of values) {
-    const d = value - mean;
-    acc += d * d;
-  }
-  return Math.sqrt(acc / (n - 1));
-}
-
 function reconstructVector(vector: number[], pca: PcaModel, k: number) {
   const coeffs = projectVector(vector, pca, k);
   const out = [...pca.mean];
@@ -99,15 +60,14 @@ function fitPca(samples: Sample[]) {
     centered.map((row) => row[featureIdx]),
   );
 
-  const svd = SVD(centeredT);
-  const u = svd.u as number[][];
-  const singularValues = svd.q;
-  const max = Math.min(MAX_COMPONENTS, singularValues.length, u[0]?.length ?? 0, u.length);
+  // Components come back strongest first, so the first k are the top k.
+  const { u, s: singularValues } = svd(fromRows(centeredT));
+  const max = Math.min(MAX_COMPONENTS, singularValues.length, u.cols);
 
   const components: number[][] = [];
   const eigenvalues: number[] = [];
   for (let i = 0; i < max; i += 1) {
-    const component = Array.from({ length: DIM }, (_, row) => u[row][i] ?? 0);
+    const component = Array.from({ length: DIM }, (_, row) => at(u, row, i));
     components.push(component);
     eigenvalues.push((singularValues[i] * singularValues[i]) / Math.max(1, samples.length - 1));
   }
@@ -141,13 +101,6 @@ function classifyKnn(
   return bestLabel;
 }
 
-function explainedRatio(eigenvalues: number[], k: number) {
-  const use = Math.min(k, eigenvalues.length);
-  const total = eigenvalues.reduce((a, b) => a + b, 0);
-  if (total <= 1e-12) return 0;
-  return eigenvalues.slice(0, use).reduce((a, b) => a + b, 0) / total;
-}
-
 function roundNum(n: number) {
   return Number(n.toFixed(5));
 }
@@ -159,16 +112,16 @@ function roundVector(v: number[]) {
 const set = mnist.set(TRAIN_SIZE, TEST_SIZE);
 const train: Sample[] = set.training.map((entry) => ({
   vector: entry.input,
-  label: labelFromOneHot(entry.output),
+  label: argmax(entry.output),
 }));
 const test: Sample[] = set.test.map((entry) => ({
   vector: entry.input,
-  label: labelFromOneHot(entry.output),
+  label: argmax(entry.output),
 }));
 
 const pca = fitPca(train);
 const trainScores = train.map((sample) => projectVector(sample.vector, pca, pca.components.length));
-const pcStd = pca.components.map((_, idx) => std(trainScores.map((score) => score[idx] ?? 0)));
+const pcStd = pca.components.map((_, idx) => standardDeviation(trainScores.map((score) => score[idx] ?? 0)));
 
 const reconstructions: Record<string, number[][]> = {};
 const explained: Record<string, number> = {};
@@ -176,7 +129,7 @@ const knnAccuracy: Record<string, number> = {};
 
 for (const preset of PRESET_COMPONENTS) {
   reconstructions[String(preset)] = test.map((sample) => roundVector(reconstructVector(sample.vector, pca, preset)));
-  explained[String(preset)] = roundNum(explainedRatio(pca.eigenvalues, preset));
+  explained[String(preset)] = roundNum(leadingShare(pca.eigenvalues, preset));
 
   const trainProjected = train.map((sample) => ({
     coeffs: projectVector(sample.vector, pca, preset),
@@ -219,7 +172,7 @@ const artifact = {
   eigendigits: pca.components.slice(0, EIGENDIGITS_TO_SAVE).map(roundVector),
   pcStd: pcStd.slice(0, EIGENDIGITS_TO_SAVE).map(roundNum),
   explained,
-  explainedCumulative: pca.eigenvalues.map((_, i) => roundNum(explainedRatio(pca.eigenvalues, i + 1))),
+  explainedCumulative: pca.eigenvalues.map((_, i) => roundNum(leadingShare(pca.eigenvalues, i + 1))),
   knnAccuracy,
 };
 
@@ -0,0 +1,142 @@
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import "../src/concepts";
+import { LOCALE_PARAMS } from "../src/lib/i18n";
+import { getConcept, getConcepts } from "../src/lib/registry";
+import { THEME_PARAMS, resolveTheme, themeCss } from "../src/lib/theme";
+import { ParamScope, frozenStore, readParam, readParams } from "../src/lib/urlState";
+
+declare const Bun: {
+  argv: string[];
+  file: (path: string) => { text: () => Promise<string> };
+  write: (path: string, data: string) => Promise<number>;
+};
+
+type RenderState = {
+  concept: string;
+  /** Raw values keyed by the concept's URL keys, as in a shared link. */
+  params?: Record<string, string>;
+  /** Output file relative to the output directory; `.svg` or `.html`. */
+  out: string;
+  /** Size of the SVG canvas when the figure is HTML rather than an <svg>. */
+  width?: number;
+  height?: number;
+};
+
+const USAGE = "Usage: bun run scripts/render-static.ts <states.json> [out-dir]";
+const DEFAULT_OUT_DIR = "static-renders";
+const FIGURE_WIDTH = 1200;
+const FIGURE_HEIGHT = 720;
+const SVG_NS = "http://www.w3.org/2000/svg";
+const XHTML_NS = "http://www.w3.org/1999/xhtml";
+
+// Views fetch their data from the site root; serve it from public/ instead.
+const networkFetch = globalThis.fetch;
+globalThis.fetch = ((input: RequestInfo | URL, init?: RequestInit) => {
+  if (typeof input === "string" && input.startsWith("/")) {
+    return Bun.file(`public${input}`)
+      .text()
+      .then((body) => new Response(body));
+  }
+  return networkFetch(input, init);
+}) as typeof fetch;
+
+function escapeHtml(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// Static markup is well-formed, so the figure ends where the nesting depth of
+// its tag returns to zero.
+function extractFigure(markup: string) {
+  const start = markup.search(/<\w+[^>]*\sdata-figure="true"/);
+  if (start < 0) return null;
+  const tag = /^<(\w+)/.exec(markup.slice(start))![1];
+  const pattern = new RegExp(`<${tag}[\\s>]|</${tag}>`, "g");
+  pattern.lastIndex = start;
+  let depth = 0;
+  for (let match = pattern.exec(markup); match; match = pattern.exec(markup)) {
+    depth += match[0].startsWith("</") ? -1 : 1;
+    if (depth === 0) return { tag, html: markup.slice(start, pattern.lastIndex) };
+  }
+  return null;
+}
+
+async function renderView(state: RenderState) {
+  const concept = getConcept(state.concept);
+  if (!concept) {
+    const known = getConcepts().map((c) => c.id).join(", ");
+    throw new Error(`Unknown concept "${state.concept}" (known: ${known})`);
+  }
+  await concept.preload?.();
+  const { default: View } = await concept.load();
+  const params = new URLSearchParams({ tab: concept.id, ...state.params });
+  const markup = renderToStaticMarkup(createElement(ParamScope, { value: frozenStore(params) }, createElement(View)));
+  const { theme, sequential, diverging } = readParams(THEME_PARAMS, params);
+  const locale = readParam(LOCALE_PARAMS.locale, params);
+  return { concept, markup, locale, tokens: themeCss(resolveTheme(theme, sequential, diverging)) };
+}
+
+function toHtml(title: string, markup: string, css: string, locale: string) {
+  return `<!doctype html>
+<html lang="${locale}">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+${css}
+.export-menu { display: none; }
+</style>
+</head>
+<body>
+<div class="page"><main class="panel">${markup}</main></div>
+</body>
+</html>
+`;
+}
+
+function toSvg(state: RenderState, markup: string, css: string) {
+  const figure = extractFigure(markup);
+  if (!figure) {
+    throw new Error(`"${state.concept}" has no element marked data-figure`);
+  }
+  if (figure.tag === "svg") {
+    return figure.html.replace("<svg", `<svg xmlns="${SVG_NS}"`);
+  }
+  // HTML figures (e.g. the SVD and CNN grids) are embedded as XHTML together
+  // with the stylesheet. Browsers render this; most vector editors do not.
+  const width = state.width ?? FIGURE_WIDTH;
+  const height = state.height ?? FIGURE_HEIGHT;
+  return `<svg xmlns="${SVG_NS}" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+<foreignObject width="100%" height="100%">
+<div xmlns="${XHTML_NS}" class="page" style="margin: 0; padding: 0;">
+<style><![CDATA[
+${css}
+]]></style>
+${figure.html}
+</div>
+</foreignObject>
+</svg>
+`;
+}
+
+const [statesPath, outDir = DEFAULT_OUT_DIR] = Bun.argv.slice(2);
+if (!statesPath) {
+  throw new Error(USAGE);
+}
+
+const states = JSON.parse(await Bun.file(statesPath).text()) as RenderState[];
+const stylesheet = await Bun.file("src/styles.css").text();
+
+for (const state of states) {
+  const { concept, markup, locale, tokens } = await renderView(state);
+  const css = `${tokens}\n\n${stylesheet}`;
+  const path = `${outDir}/${state.out}`;
+  if (state.out.endsWith(".svg")) {
+    await Bun.write(path, toSvg(state, markup, css));
+  } else if (state.out.endsWith(".html")) {
+    await Bun.write(path, toHtml(concept.label, markup, css, locale));
+  } else {
+    throw new Error(`Cannot tell the format of "${state.out}"; use .svg or .html`);
+  }
+  console.log(`Wrote ${path}`);
+}
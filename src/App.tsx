@@ -1,48 +1,79 @@
-import { Component, type ComponentType, type ErrorInfo, type ReactNode, Suspense, lazy, useEffect, useState } from "react";
-import { CNNViz } from "./components/CNNViz";
-import { GradientDescentViz } from "./components/GradientDescentViz";
-import { ReLUViz } from "./components/ReLUViz";
-import { LLMFlowViz } from "./components/LLMFlowViz";
-import { LLMViz } from "./components/LLMViz";
-import { RNNViz } from "./components/RNNViz";
-import { SVDViz } from "./components/SVDViz";
-
-function lazyWithRetry<T extends { default: ComponentType<any> }>(
-  importer: () => Promise<T>,
-) {
-  return lazy(async () => {
-    try {
-      return await importer();
-    } catch {
-      await new Promise((resolve) => window.setTimeout(resolve, 350));
-      return importer();
-    }
-  });
-}
+import { Component, type ReactNode, Suspense, useEffect, useMemo, useRef, useState } from "react";
+import { AnnotationLayer } from "./components/AnnotationLayer";
+import { Handout } from "./components/Handout";
+import { LessonMenu } from "./components/LessonMenu";
+import { LocalePicker } from "./components/LocalePicker";
+import { PresentationMode } from "./components/PresentationMode";
+import { RecorderMenu, ReplayBar } from "./components/SessionRecorder";
+import { SnapshotCompare } from "./components/SnapshotCompare";
+import { ThemePicker } from "./components/ThemePicker";
+import { TourCallout, TourLauncher } from "./components/TourGuide";
+import { HoldAnimationsButton } from "./components/TransportControls";
+import { UpdatePrompt } from "./components/UpdatePrompt";
+import { conceptView, prefetchConcept, prefetchWhenIdle, resetConcept } from "./lib/conceptLoader";
+import { PRESENT_KEY, SLIDE_KEY, buildDeck, isPresenting, readSlideIndex, startPresentation, withoutPresentation } from "./lib/deck";
+import { EMBED_KEY, initEmbedApi, isEmbedded } from "./lib/embed";
+import { HANDOUT_KEY, handoutSlides, handoutTitle, openHandout, readHandout } from "./lib/handout";
+import { format, useDocumentLanguage, useMessages } from "./lib/i18n";
+import { activeLesson, lessonDeck } from "./lib/lesson";
+import { AUDIENCE_KEY, initPresenterSync, isAudience, openAudienceWindow } from "./lib/presenterSync";
+import { type ConceptDefinition, getConcept, useConcepts } from "./lib/registry";
+import { checkForUpdate } from "./lib/serviceWorker";
+import { initSettingsPersistence, resetToDefaults, setRememberSettings, tabSearch, useRememberSettings } from "./lib/settingsStore";
+import { THEMES, useTheme, useThemeStyle } from "./lib/theme";
+import {
+  type ParamStore,
+  ParamScope,
+  commitSearch,
+  frozenStore,
+  getSearch,
+  subscribeSearch,
+  updateSearch,
+  urlStore,
+  useSearchKeys,
+  withGlobalParams,
+} from "./lib/urlState";
 
-const PCAViz = lazyWithRetry(() =>
-  import("./components/PCAViz").then((module) => ({ default: module.PCAViz })),
-);
+// The page shell only depends on which tab is open and how the page is shown.
+// Subscribing to these alone keeps animation frames, which write `step` or `t`
+// to the URL many times a second, from re-rendering every mounted tab.
+const SHELL_KEYS = ["tab", PRESENT_KEY, SLIDE_KEY, AUDIENCE_KEY, EMBED_KEY, HANDOUT_KEY];
 
 class LazyChunkBoundary extends Component<
-  { children: ReactNode },
-  { hasError: boolean }
+  { label: string; onRetry: () => void; children: ReactNode },
+  { error: Error | null }
 > {
-  state = { hasError: false };
+  state: { error: Error | null } = { error: null };
 
-  static getDerivedStateFromError() {
-    return { hasError: true };
+  static getDerivedStateFromError(error: Error) {
+    return { error };
   }
 
-  componentDidCatch(_error: Error, _errorInfo: ErrorInfo) {}
+  componentDidCatch() {
+    // The usual cause is a redeploy that removed this chunk; see if one is out.
+    checkForUpdate();
+  }
 
   render() {
-    if (this.state.hasError) {
+    const { error } = this.state;
+    if (error) {
       return (
-        <div className="formula-block">
-          Could not load this module chunk.
-          <br />
-          Please refresh once after deploy.
+        <div className="formula-block chunk-error" role="alert">
+          <strong>Could not load the {this.props.label} module.</strong>
+          <span>Check your connection and retry.</span>
+          <UpdatePrompt />
+          <div className="chunk-error-actions">
+            <button className="ghost-btn" onClick={this.props.onRetry}>
+              Retry
+            </button>
+            <button className="ghost-btn" onClick={() => window.location.reload()}>
+              Reload page
+            </button>
+          </div>
+          <details>
+            <summary>Error details</summary>
+            <pre>{error.stack ?? `${error.name}: ${error.message}`}</pre>
+          </details>
         </div>
       );
     }
@@ -50,115 +81,228 @@ class LazyChunkBoundary extends Component<
   }
 }
 
-const concepts = [
-  { id: "svd", label: "SVD" },
-  { id: "pca", label: "PCA" },
-  { id: "gd", label: "Gradient Descent" },
-  { id: "relu", label: "Activations" },
-  { id: "cnn", label: "CNN" },
-  { id: "rnn", label: "RNN" },
-  { id: "llm", label: "LLM" },
-  { id: "llmflow", label: "LLM Flow" },
-] as const;
-
-type ConceptId = (typeof concepts)[number]["id"];
+function ConceptPanel({ concept }: { concept: ConceptDefinition }) {
+  const [attempt, setAttempt] = useState(0);
+  const View = conceptView(concept);
 
-const DEFAULT_TAB: ConceptId = "svd";
+  const retry = () => {
+    resetConcept(concept.id);
+    setAttempt((n) => n + 1);
+  };
 
-function isConceptId(value: string | null): value is ConceptId {
-  if (!value) return false;
-  return concepts.some((c) => c.id === value);
+  return (
+    <LazyChunkBoundary key={attempt} label={concept.label} onRetry={retry}>
+      <Suspense fallback={<p className="subtext">Loading {concept.label} module...</p>}>
+        <View />
+      </Suspense>
+    </LazyChunkBoundary>
+  );
 }
 
-function getTabFromUrl(): ConceptId {
-  if (typeof window === "undefined") return DEFAULT_TAB;
-  const value = new URLSearchParams(window.location.search).get("tab");
-  return isConceptId(value) ? value : DEFAULT_TAB;
-}
+export default function App() {
+  const concepts = useConcepts();
+  const lesson = activeLesson.use();
+  const messages = useMessages();
+  const deck = useMemo(() => (lesson ? lessonDeck(lesson) : buildDeck(concepts, messages)), [lesson, concepts, messages]);
+  const search = useSearchKeys(SHELL_KEYS);
+  const active = getConcept(search.get("tab")) ?? concepts[0];
+  const presenting = isPresenting(search);
+  const audience = isAudience(search);
+  const embedded = isEmbedded(search);
+  const handout = readHandout(search);
+  const rememberSettings = useRememberSettings();
+  const [visited, setVisited] = useState<ReadonlySet<string>>(() => new Set([active.id]));
+  const [pins, setPins] = useState<Readonly<Record<string, string | null>>>({});
+  const lastSearchByTab = useRef(new Map<string, string>());
+  const backgroundStores = useRef(new Map<string, ParamStore>());
+  backgroundStores.current.delete(active.id);
+  const theme = useTheme();
+  useThemeStyle(handout ? THEMES.light : theme);
+  useDocumentLanguage();
 
-function updateUrlTab(tab: ConceptId, replace: boolean) {
-  const url = new URL(window.location.href);
-  url.searchParams.set("tab", tab);
-  const next = `${url.pathname}${url.search}${url.hash}`;
-  if (replace) {
-    window.history.replaceState(null, "", next);
-  } else {
-    window.history.pushState(null, "", next);
-  }
-}
+  useEffect(() => initPresenterSync(), []);
 
-export default function App() {
-  const [active, setActive] = useState<ConceptId>(() => getTabFromUrl());
-  const [hasVisitedPca, setHasVisitedPca] = useState<boolean>(() => getTabFromUrl() === "pca");
+  useEffect(() => (embedded ? initEmbedApi() : undefined), [embedded]);
 
-  useEffect(() => {
-    const raw = new URLSearchParams(window.location.search).get("tab");
-    if (!isConceptId(raw)) {
-      updateUrlTab(active, true);
-    }
-  }, [active]);
+  useEffect(() => initSettingsPersistence(), []);
 
+  useEffect(() => prefetchWhenIdle(concepts), [concepts]);
+
+  // Every change to the URL is the active tab's latest state, so a tab is
+  // frozen at exactly what it showed when it is left.
   useEffect(() => {
-    const onPopState = () => {
-      setActive(getTabFromUrl());
+    const record = () => {
+      const current = getSearch();
+      const tab = getConcept(current.get("tab")) ?? concepts[0];
+      lastSearchByTab.current.set(tab.id, withoutPresentation(current).toString());
     };
-    window.addEventListener("popstate", onPopState);
-    return () => window.removeEventListener("popstate", onPopState);
-  }, []);
-
-  const changeTab = (tab: ConceptId) => {
-    if (tab === active) return;
-    setActive(tab);
-    updateUrlTab(tab, false);
+    record();
+    return subscribeSearch(record);
+  }, [concepts]);
+
+  useEffect(() => {
+    if (search.get("tab") !== active.id) {
+      updateSearch((params) => params.set("tab", active.id), "replace");
+    }
+  }, [search, active]);
+
+  // Concepts reuse short keys like "speed", so only the active tab's
+  // parameters live in the URL. Returning to a tab restores what it had;
+  // opening one for the first time restores its remembered settings.
+  const changeTab = (concept: ConceptDefinition) => {
+    if (concept === active) return;
+    const restored = lastSearchByTab.current.get(concept.id);
+    commitSearch(withGlobalParams(restored ? new URLSearchParams(restored) : tabSearch(concept)), "push");
   };
 
   useEffect(() => {
-    if (active === "pca") {
-      setHasVisitedPca(true);
+    if (!visited.has(active.id)) {
+      setVisited((ids) => new Set(ids).add(active.id));
     }
-  }, [active]);
+  }, [active, visited]);
+
+  // Visited tabs stay mounted so returning to them is instant and keeps loaded
+  // data. A background tab is pinned to the parameters it had when it was left,
+  // since the URL now belongs to the active tab.
+  const storeFor = (id: string) => {
+    if (id === active.id) return urlStore;
+    let store = backgroundStores.current.get(id);
+    if (!store) {
+      store = frozenStore(new URLSearchParams(lastSearchByTab.current.get(id)));
+      backgroundStores.current.set(id, store);
+    }
+    return store;
+  };
+
+  // A handout is a snapshot, so reading the rest of the URL once is enough.
+  const handoutSearch = handout === "tab" ? getSearch().toString() : "";
+  const printed = useMemo(
+    () => (handout ? handoutSlides(handout, deck, active, new URLSearchParams(handoutSearch)) : []),
+    [handout, deck, active, handoutSearch],
+  );
+
+  // Ink is kept per slide, keyed by what the slide shows rather than its position.
+  const slide = presenting ? deck[readSlideIndex(search, deck.length)] : null;
+
+  const panel = (
+    <main className="panel">
+      {concepts
+        .filter((concept) => concept === active || visited.has(concept.id))
+        .map((concept) => (
+          <div key={concept.id} data-concept={concept.id} style={{ display: concept === active ? "block" : "none" }}>
+            <ParamScope value={storeFor(concept.id)}>
+              <SnapshotCompare
+                concept={concept}
+                store={storeFor(concept.id)}
+                pinned={pins[concept.id] ?? null}
+                onPin={(pinned) => setPins((all) => ({ ...all, [concept.id]: pinned }))}
+                render={(store) => (
+                  <ParamScope value={store}>
+                    <ConceptPanel concept={concept} />
+                  </ParamScope>
+                )}
+              />
+            </ParamScope>
+          </div>
+        ))}
+      {slide && <AnnotationLayer slide={`${slide.concept}/${slide.title}`} concept={slide.concept} />}
+    </main>
+  );
+
+  // Embeds show one concept and are driven by the host page (src/lib/embed.ts).
+  if (embedded) {
+    return <div className="page page-embed">{panel}</div>;
+  }
+
+  // Audience windows follow the presenter and show only the visualization.
+  if (audience) {
+    return (
+      <div className="page page-presenting page-audience">
+        {slide && <h1 className="deck-title">{slide.title}</h1>}
+        {panel}
+      </div>
+    );
+  }
+
+  if (handout) {
+    return (
+      <div className="page page-handout">
+        <Handout
+          title={handoutTitle(handout, active, lesson?.title)}
+          slides={printed}
+          render={(concept) => <ConceptPanel concept={concept} />}
+        />
+      </div>
+    );
+  }
+
+  if (presenting) {
+    return (
+      <div className="page page-presenting">
+        <PresentationMode deck={deck}>{panel}</PresentationMode>
+        <ReplayBar />
+      </div>
+    );
+  }
 
   return (
     <div className="page">
+      <UpdatePrompt />
       <header className="hero">
         <h1>Deep Learning Concept Visualizer</h1>
-        <p>
-          Interactive intuition builders for your presentation: matrix
-          factorization, dimensionality reduction on handwritten digit data, and
-          optimization, plus CNN, RNN, and LLM attention.
-        </p>
+        <p>{messages.app.intro}</p>
       </header>
 
-      <nav className="tabs" aria-label="Concepts">
+      <nav className="tabs" aria-label={messages.app.concepts}>
         {concepts.map((concept) => (
           <button
             key={concept.id}
-            className={concept.id === active ? "tab tab-active" : "tab"}
-            onClick={() => changeTab(concept.id)}
+            className={concept === active ? "tab tab-active" : "tab"}
+            aria-current={concept === active ? "page" : undefined}
+            title={concept.description}
+            onClick={() => changeTab(concept)}
+            onPointerEnter={() => prefetchConcept(concept)}
+            onFocus={() => prefetchConcept(concept)}
           >
             {concept.label}
           </button>
         ))}
+        <button className="tab tab-present" onClick={() => startPresentation(deck)}>
+          {messages.app.present}
+        </button>
+        <button className="tab" onClick={openAudienceWindow}>
+          {messages.app.audienceWindow}
+        </button>
+        <button className="tab" title={format(messages.app.handoutTitle, { concept: active.label })} onClick={() => openHandout("tab")}>
+          {messages.app.handout}
+        </button>
+        <HoldAnimationsButton className="tab" />
+        <button
+          className="tab"
+          aria-pressed={rememberSettings}
+          title={messages.app.rememberSettingsTitle}
+          onClick={() => setRememberSettings(!rememberSettings)}
+        >
+          {messages.app.rememberSettings}
+        </button>
+        <button
+          className="tab"
+          title={format(messages.app.resetTitle, { concept: active.label })}
+          onClick={() => resetToDefaults(active)}
+        >
+          {messages.app.resetToDefaults}
+        </button>
+        <ThemePicker />
+        <LocalePicker />
       </nav>
 
-      <main className="panel">
-        {active === "svd" && <SVDViz />}
-        {hasVisitedPca && (
-          <div style={{ display: active === "pca" ? "block" : "none" }}>
-            <LazyChunkBoundary>
-              <Suspense fallback={<p className="subtext">Loading PCA module...</p>}>
-                <PCAViz />
-              </Suspense>
-            </LazyChunkBoundary>
-          </div>
-        )}
-        {active === "gd" && <GradientDescentViz />}
-        {active === "relu" && <ReLUViz />}
-        {active === "cnn" && <CNNViz />}
-        {active === "rnn" && <RNNViz />}
-        {active === "llm" && <LLMViz />}
-        {active === "llmflow" && <LLMFlowViz />}
-      </main>
+      <LessonMenu />
+      <RecorderMenu />
+      <TourLauncher concept={active} />
+
+      {panel}
+      <TourCallout />
+      <ReplayBar />
     </div>
   );
 }
@@ -0,0 +1,288 @@
+import { type PointerEvent, useEffect, useRef, useState } from "react";
+import {
+  type Annotation,
+  INK_COLORS,
+  type InkColor,
+  type InkPoint,
+  type InkTool,
+  setDrawing,
+  useAnnotations,
+  useDrawing,
+} from "../lib/annotations";
+import { type Palette, useTheme } from "../lib/theme";
+
+const TOOLS: { id: InkTool; label: string }[] = [
+  { id: "pen", label: "Pen" },
+  { id: "highlighter", label: "Highlighter" },
+  { id: "arrow", label: "Arrow" },
+  { id: "text", label: "Text" },
+];
+
+const COLOR_NAMES: Record<InkColor, string> = {
+  emphasis: "Yellow",
+  negative: "Red",
+  info: "Blue",
+  positive: "Green",
+};
+
+// Sizes are fractions of the figure width, like the points themselves.
+const PEN_WIDTH = 0.004;
+const HIGHLIGHTER_WIDTH = 0.022;
+const ARROW_HEAD = 0.018;
+const TEXT_SIZE = 0.024;
+// Skip points closer than this to the previous one to keep strokes small.
+const MIN_STEP = 0.002;
+
+/** The figure's box within the layer, in pixels. */
+type Anchor = { left: number; top: number; width: number };
+
+const NO_ANCHOR: Anchor = { left: 0, top: 0, width: 0 };
+
+/** Falls back to the whole layer while the view has no figure, e.g. during loading. */
+function anchorOf(layer: Element, figure: Element | null): Anchor {
+  const box = layer.getBoundingClientRect();
+  const target = figure?.getBoundingClientRect() ?? box;
+  return { left: target.left - box.left, top: target.top - box.top, width: target.width };
+}
+
+function place([x, y]: InkPoint, anchor: Anchor) {
+  return [anchor.left + x * anchor.width, anchor.top + y * anchor.width];
+}
+
+function strokePath(points: InkPoint[], anchor: Anchor) {
+  return points
+    .map((point, i) => {
+      const [x, y] = place(point, anchor);
+      return `${i === 0 ? "M" : "L"} ${x.toFixed(1)} ${y.toFixed(1)}`;
+    })
+    .join(" ");
+}
+
+function arrowHead(from: InkPoint, to: InkPoint, anchor: Anchor) {
+  const angle = Math.atan2(to[1] - from[1], to[0] - from[0]);
+  const size = ARROW_HEAD * anchor.width;
+  const [tx, ty] = place(to, anchor);
+  const wing = (offset: number) =>
+    `${(tx - size * Math.cos(angle + offset)).toFixed(1)} ${(ty - size * Math.sin(angle + offset)).toFixed(1)}`;
+  return `M ${wing(0.45)} L ${tx.toFixed(1)} ${ty.toFixed(1)} L ${wing(-0.45)}`;
+}
+
+function Ink({ annotation, anchor, palette }: { annotation: Annotation; anchor: Anchor; palette: Palette }) {
+  const color = palette[annotation.color];
+  const { width } = anchor;
+  switch (annotation.tool) {
+    case "pen":
+    case "highlighter": {
+      const highlighter = annotation.tool === "highlighter";
+      return (
+        <path
+          d={strokePath(annotation.points, anchor)}
+          fill="none"
+          stroke={color}
+          strokeOpacity={highlighter ? 0.35 : 1}
+          strokeWidth={(highlighter ? HIGHLIGHTER_WIDTH : PEN_WIDTH) * width}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      );
+    }
+    case "arrow":
+      return (
+        <g fill="none" stroke={color} strokeWidth={PEN_WIDTH * width} strokeLinecap="round" strokeLinejoin="round">
+          <path d={strokePath([annotation.from, annotation.to], anchor)} />
+          <path d={arrowHead(annotation.from, annotation.to, anchor)} />
+        </g>
+      );
+    case "text": {
+      const [x, y] = place(annotation.at, anchor);
+      return (
+        <text
+          x={x}
+          y={y}
+          fill={color}
+          fontSize={TEXT_SIZE * width}
+          fontWeight={700}
+          paintOrder="stroke"
+          stroke={palette.bg}
+          strokeWidth={TEXT_SIZE * width * 0.18}
+        >
+          {annotation.text}
+        </text>
+      );
+    }
+  }
+}
+
+/**
+ * Ink over the panel for one slide, placed on the figure of the slide's
+ * concept. Everyone sees it; only the window in drawing mode can add to it.
+ */
+export function AnnotationLayer({ slide, concept }: { slide: string; concept: string }) {
+  const { palette } = useTheme();
+  const drawing = useDrawing();
+  const [annotations, setAnnotations] = useAnnotations(slide);
+  const [tool, setTool] = useState<InkTool>("pen");
+  const [color, setColor] = useState<InkColor>("emphasis");
+  const [draft, setDraft] = useState<Annotation | null>(null);
+  const [textAt, setTextAt] = useState<InkPoint | null>(null);
+  const [anchor, setAnchor] = useState(NO_ANCHOR);
+  const layer = useRef<HTMLDivElement>(null);
+
+  // The layer covers the whole panel, so it resizes whenever the content
+  // above the figure does; that is also when a lazily loaded figure appears.
+  useEffect(() => {
+    const element = layer.current;
+    if (!element) return;
+    let figure: Element | null = null;
+    const measure = () => {
+      const found = element.parentElement?.querySelector(`[data-concept="${concept}"] [data-figure]`) ?? null;
+      if (found !== figure) {
+        if (figure) observer.unobserve(figure);
+        if (found) observer.observe(found);
+        figure = found;
+      }
+      setAnchor(anchorOf(element, figure));
+    };
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [concept]);
+
+  const undo = () => setAnnotations(annotations.slice(0, -1));
+
+  const undoRef = useRef(undo);
+  undoRef.current = undo;
+
+  // Capture phase, so Escape leaves drawing mode before the deck sees it.
+  useEffect(() => {
+    if (!drawing) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement) return;
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "z") {
+        undoRef.current();
+      } else if (event.key === "Escape") {
+        setDrawing(false);
+      } else {
+        return;
+      }
+      event.preventDefault();
+    };
+    window.addEventListener("keydown", onKeyDown, true);
+    return () => window.removeEventListener("keydown", onKeyDown, true);
+  }, [drawing]);
+
+  useEffect(() => {
+    setDraft(null);
+    setTextAt(null);
+  }, [slide, drawing]);
+
+  const pointAt = (event: PointerEvent): InkPoint => {
+    const box = layer.current!.getBoundingClientRect();
+    return [(event.clientX - box.left - anchor.left) / anchor.width, (event.clientY - box.top - anchor.top) / anchor.width];
+  };
+
+  const onPointerDown = (event: PointerEvent<SVGSVGElement>) => {
+    if (event.button !== 0) return;
+    const at = pointAt(event);
+    if (tool === "text") {
+      setTextAt(at);
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDraft(tool === "arrow" ? { tool, color, from: at, to: at } : { tool, color, points: [at] });
+  };
+
+  const onPointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    if (!draft) return;
+    const at = pointAt(event);
+    if (draft.tool === "arrow") {
+      setDraft({ ...draft, to: at });
+    } else if (draft.tool !== "text") {
+      const [lx, ly] = draft.points[draft.points.length - 1];
+      if (Math.hypot(at[0] - lx, at[1] - ly) >= MIN_STEP) setDraft({ ...draft, points: [...draft.points, at] });
+    }
+  };
+
+  const onPointerUp = () => {
+    if (draft) setAnnotations([...annotations, draft]);
+    setDraft(null);
+  };
+
+  const commitText = (text: string) => {
+    if (textAt && text.trim()) setAnnotations([...annotations, { tool: "text", color, at: textAt, text: text.trim() }]);
+    setTextAt(null);
+  };
+
+  const textSpot = textAt && place(textAt, anchor);
+
+  if (annotations.length === 0 && !drawing) return <div ref={layer} className="annotation-layer" aria-hidden="true" />;
+
+  return (
+    <div ref={layer} className={drawing ? "annotation-layer annotation-layer-drawing" : "annotation-layer"}>
+      <svg
+        width="100%"
+        height="100%"
+        aria-label={drawing ? "Drawing surface" : undefined}
+        aria-hidden={drawing ? undefined : true}
+        onPointerDown={drawing ? onPointerDown : undefined}
+        onPointerMove={drawing ? onPointerMove : undefined}
+        onPointerUp={drawing ? onPointerUp : undefined}
+        onPointerCancel={drawing ? onPointerUp : undefined}
+      >
+        {annotations.map((annotation, i) => (
+          <Ink key={i} annotation={annotation} anchor={anchor} palette={palette} />
+        ))}
+        {draft && <Ink annotation={draft} anchor={anchor} palette={palette} />}
+      </svg>
+
+      {textSpot && (
+        <input
+          className="annotation-text-input"
+          aria-label="Annotation text"
+          autoFocus
+          style={{
+            left: textSpot[0],
+            top: textSpot[1] - TEXT_SIZE * anchor.width,
+            color: palette[color],
+            fontSize: TEXT_SIZE * anchor.width,
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commitText(e.currentTarget.value);
+            if (e.key === "Escape") setTextAt(null);
+            e.stopPropagation();
+          }}
+          onBlur={(e) => commitText(e.currentTarget.value)}
+        />
+      )}
+
+      {drawing && (
+        <div className="annotation-toolbar" role="toolbar" aria-label="Annotation tools">
+          {TOOLS.map((item) => (
+            <button key={item.id} className="ghost-btn" aria-pressed={tool === item.id} onClick={() => setTool(item.id)}>
+              {item.label}
+            </button>
+          ))}
+          {INK_COLORS.map((id) => (
+            <button
+              key={id}
+              className="annotation-swatch"
+              aria-label={COLOR_NAMES[id]}
+              aria-pressed={color === id}
+              style={{ background: palette[id] }}
+              onClick={() => setColor(id)}
+            />
+          ))}
+          <button className="ghost-btn" onClick={undo} disabled={annotations.length === 0}>
+            Undo
+          </button>
+          <button className="ghost-btn" onClick={() => setAnnotations([])} disabled={annotations.length === 0}>
+            Clear
+          </button>
+          <button className="ghost-btn" onClick={() => setDrawing(false)}>
+            Done
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,52 +1,82 @@
-import { useEffect, useMemo, useState } from "react";
+import { useMemo } from "react";
+import { CNN_PARAMS } from "../concepts/cnn";
+import { format, useMessages } from "../lib/i18n";
+import { stepperFigure } from "../lib/keyboard";
+import { type Matrix, at, conv2dSame, dot, fromFunction, fromRows, maxPool, maxValue, relu, toRows } from "../lib/math";
+import { useReportMetrics } from "../lib/metrics";
+import { type PlaybackParams, usePlayback } from "../lib/playback";
+import { createRng } from "../lib/random";
+import { sampleColormap, tintColormap, useTheme } from "../lib/theme";
+import { useUrlParam } from "../lib/urlState";
+import { DataTable } from "./DataTable";
+import { ExplainCard } from "./ExplainCard";
+import { ExportMenu } from "./ExportMenu";
+import { Heatmap } from "./Heatmap";
+import { LiveRegion } from "./LiveRegion";
+import { SeedControl } from "./SeedControl";
+import { TransportControls } from "./TransportControls";
 
 const IMAGE_SIZE = 14;
 const KERNEL_SIZE = 3;
+const TRAINING_ITERATIONS = 120;
 
-type Matrix = number[][];
+const SCAN_PLAYBACK: PlaybackParams = {
+  frame: CNN_PARAMS.scanIndex,
+  playing: CNN_PARAMS.scanPlaying,
+  speed: CNN_PARAMS.scanSpeed,
+  loop: CNN_PARAMS.scanLoop,
+};
+
+const TRAINING_PLAYBACK: PlaybackParams = {
+  frame: CNN_PARAMS.iteration,
+  playing: CNN_PARAMS.iterPlaying,
+  speed: CNN_PARAMS.iterSpeed,
+  loop: CNN_PARAMS.iterLoop,
+};
 
 type KernelDef = {
   name: string;
   description: string;
   matrix: Matrix;
-  color: string;
+  /** Index into the theme's categorical series. */
+  series: number;
 };
 
 const KERNELS: KernelDef[] = [
   {
     name: "Eye Spot Detector",
     description: "Looks for compact bright spots (eye-like points).",
-    matrix: [
+    matrix: fromRows([
       [0, -1, 0],
       [-1, 4, -1],
       [0, -1, 0],
-    ],
-    color: "#9fd2ff",
+    ]),
+    series: 0,
   },
   {
     name: "Mouth Line Detector",
     description: "Responds to horizontal bright lines (mouth-like strokes).",
-    matrix: [
+    matrix: fromRows([
       [-1, -1, -1],
       [2, 2, 2],
       [-1, -1, -1],
-    ],
-    color: "#ffd79a",
+    ]),
+    series: 1,
   },
   {
     name: "Face Edge Detector",
     description: "Responds to vertical edge transitions around the face boundary.",
-    matrix: [
+    matrix: fromRows([
       [-1, 0, 1],
       [-1, 0, 1],
       [-1, 0, 1],
-    ],
-    color: "#b0edc8",
+    ]),
+    series: 2,
   },
 ];
 
 function buildSampleImage() {
-  const m = Array.from({ length: IMAGE_SIZE }, () => Array.from({ length: IMAGE_SIZE }, () => 0));
+  const m: number[][] = Array.from({ length: IMAGE_SIZE }, () => Array.from({ length: IMAGE_SIZE }, () => 0));
 
   for (let y = 2; y < IMAGE_SIZE - 2; y += 1) {
     for (let x = 2; x < IMAGE_SIZE - 2; x += 1) {
@@ -69,62 +99,14 @@ function buildSampleImage() {
     m[11][i] = Math.max(m[11][i], 0.75);
   }
 
-  return m;
-}
-
-function conv2dSame(image: Matrix, kernel: Matrix) {
-  const outSize = image.length;
-  const pad = Math.floor(kernel.length / 2);
-  const out = Array.from({ length: outSize }, () => Array.from({ length: outSize }, () => 0));
-
-  for (let y = 0; y < outSize; y += 1) {
-    for (let x = 0; x < outSize; x += 1) {
-      let sum = 0;
-      for (let ky = 0; ky < kernel.length; ky += 1) {
-        for (let kx = 0; kx < kernel[0].length; kx += 1) {
-          const iy = y + ky - pad;
-          const ix = x + kx - pad;
-          const pixel = iy >= 0 && iy < image.length && ix >= 0 && ix < image[0].length ? image[iy][ix] : 0;
-          sum += pixel * kernel[ky][kx];
-        }
-      }
-      out[y][x] = Math.max(0, sum);
-    }
-  }
-  return out;
-}
-
-function maxPool2x2(feature: Matrix) {
-  const outSize = Math.floor(feature.length / 2);
-  const out = Array.from({ length: outSize }, () => Array.from({ length: outSize }, () => 0));
-  for (let y = 0; y < outSize; y += 1) {
-    for (let x = 0; x < outSize; x += 1) {
-      const y0 = y * 2;
-      const x0 = x * 2;
-      out[y][x] = Math.max(feature[y0][x0], feature[y0][x0 + 1], feature[y0 + 1][x0], feature[y0 + 1][x0 + 1]);
-    }
-  }
-  return out;
-}
-
-function flatten(m: Matrix) {
-  return m.flat();
-}
-
-function gridMax(m: Matrix) {
-  return Math.max(1e-6, ...m.flat());
-}
-
-function randUnit(seed: number) {
-  const x = Math.sin(seed * 12.9898) * 43758.5453;
-  return x - Math.floor(x);
+  return fromRows(m);
 }
 
 function strongestPoints(map: Matrix, count = 3) {
   const points: Array<{ x: number; y: number; v: number }> = [];
-  for (let y = 0; y < map.length; y += 1) {
-    for (let x = 0; x < map[0].length; x += 1) {
-      points.push({ x, y, v: map[y][x] });
+  for (let y = 0; y < map.rows; y += 1) {
+    for (let x = 0; x < map.cols; x += 1) {
+      points.push({ x, y, v: at(map, y, x) });
     }
   }
   points.sort((a, b) => b.v - a.v);
@@ -140,23 +122,23 @@ function strongestPoints(map: Matrix, count = 3) {
 }
 
 export function CNNViz() {
-  const [activeKernel, setActiveKernel] = useState(0);
-  const [dropRate, setDropRate] = useState(0.35);
-  const [scanPlaying, setScanPlaying] = useState(true);
-  const [scanSpeed, setScanSpeed] = useState(160);
-  const [scanIndex, setScanIndex] = useState(0);
-  const [iterPlaying, setIterPlaying] = useState(true);
-  const [iteration, setIteration] = useState(1);
+  const messages = useMessages();
+  const text = messages.cnn;
+  const [activeKernel, setActiveKernel] = useUrlParam(CNN_PARAMS.activeKernel);
+  const [dropRate, setDropRate] = useUrlParam(CNN_PARAMS.dropRate);
+  const [seed] = useUrlParam(CNN_PARAMS.seed);
 
   const image = useMemo(() => buildSampleImage(), []);
   const activeKernelDef = KERNELS[activeKernel];
+  const { palette, sequentialMap } = useTheme();
+  const kernelColor = palette.series[activeKernelDef.series];
 
-  const featureMaps = useMemo(() => KERNELS.map((k) => conv2dSame(image, k.matrix)), [image]);
-  const pooledMaps = useMemo(() => featureMaps.map((m) => maxPool2x2(m)), [featureMaps]);
+  const featureMaps = useMemo(() => KERNELS.map((k) => relu(conv2dSame(image, k.matrix))), [image]);
+  const pooledMaps = useMemo(() => featureMaps.map((m) => maxPool(m)), [featureMaps]);
 
   const convMap = featureMaps[activeKernel];
   const pooled = pooledMaps[activeKernel];
-  const vector = useMemo(() => flatten(pooled), [pooled]);
+  const vector = useMemo(() => Array.from(pooled.data), [pooled]);
 
   const scanPositions = useMemo(() => {
     const positions: Array<{ x: number; y: number }> = [];
@@ -168,130 +150,94 @@ export function CNNViz() {
     return positions;
   }, []);
 
-  useEffect(() => {
-    if (!scanPlaying) return;
-    const t = window.setInterval(() => {
-      setScanIndex((i) => (i + 1) % scanPositions.length);
-    }, scanSpeed);
-    return () => window.clearInterval(t);
-  }, [scanPlaying, scanSpeed, scanPositions.length]);
-
-  useEffect(() => {
-    if (!iterPlaying) return;
-    const t = window.setInterval(() => {
-      setIteration((i) => (i >= 120 ? 1 : i + 1));
-    }, 330);
-    return () => window.clearInterval(t);
-  }, [iterPlaying]);
+  const scan = usePlayback(SCAN_PLAYBACK, 0, scanPositions.length - 1);
+  const training = usePlayback(TRAINING_PLAYBACK, 1, TRAINING_ITERATIONS);
+  const scanIndex = scan.frame;
+  const iteration = training.frame;
 
   const scanPos = scanPositions[scanIndex];
-  const patch = useMemo(() => {
-    const out = Array.from({ length: KERNEL_SIZE }, () => Array.from({ length: KERNEL_SIZE }, () => 0));
-    for (let y = 0; y < KERNEL_SIZE; y += 1) {
-      for (let x = 0; x < KERNEL_SIZE; x += 1) {
-        out[y][x] = image[scanPos.y + y][scanPos.x + x];
-      }
-    }
-    return out;
-  }, [image, scanPos]);
-
-  const patchActivation = useMemo(() => {
-    let sum = 0;
-    for (let y = 0; y < KERNEL_SIZE; y += 1) {
-      for (let x = 0; x < KERNEL_SIZE; x += 1) {
-        sum += patch[y][x] * activeKernelDef.matrix[y][x];
-      }
-    }
-    return Math.max(0, sum);
-  }, [patch, activeKernelDef]);
+  const patch = useMemo(
+    () => fromFunction(KERNEL_SIZE, KERNEL_SIZE, (y, x) => at(image, scanPos.y + y, scanPos.x + x)),
+    [image, scanPos],
+  );
+
+  const patchActivation = useMemo(() => Math.max(0, dot(patch.data, activeKernelDef.matrix.data)), [patch, activeKernelDef]);
 
   const droppedMask = useMemo(() => {
-    return vector.map((_, idx) => randUnit(iteration * 1000 + idx * 37) > dropRate);
-  }, [vector, iteration, dropRate]);
+    const rng = createRng(seed, iteration);
+    return vector.map(() => rng.next() > dropRate);
+  }, [vector, seed, iteration, dropRate]);
 
   const keptCount = droppedMask.filter(Boolean).length;
-  const convMax = gridMax(convMap);
-  const poolMax = gridMax(pooled);
+  const convMax = maxValue(convMap.data);
   const topPoints = useMemo(() => strongestPoints(convMap, 3), [convMap]);
+  const topCells = topPoints.map((p) => ({ row: p.y, col: p.x }));
+  const kernelTint = tintColormap(palette.well, kernelColor);
+
+  useReportMetrics([
+    { label: "Activation at kernel", value: patchActivation },
+    { label: "Strongest response", value: convMax },
+    { label: "Units kept by dropout", value: `${keptCount} of ${vector.length}` },
+  ]);
 
   return (
     <section>
       <h2>CNN Feature Flow Visualizer</h2>
-      <p className="subtext">
-        Instead of "raw pixels", each conv map is a feature detector. Use the detector selector to show eyes, mouth line, and face-edge evidence separately.
-      </p>
-
-      <div className="explain-card">
-        <strong>How to explain this slide</strong>
-        <span>1) Choose a detector (eye, mouth, or edge).</span>
-        <span>2) Bright cells in the conv map mean this feature is present there.</span>
-        <span>3) "Top activations" are the model's strongest evidence locations.</span>
-        <span>4) Pooling and dropout keep signal while improving robustness.</span>
-      </div>
+      <p className="subtext">{messages.intros.cnn}</p>
+
+      <ExplainCard notes={messages.notes.cnn} />
 
       <div className="cnn-kernel-row">
         {KERNELS.map((k, idx) => (
-          <button key={k.name} className={idx === activeKernel ? "tab tab-active" : "tab"} onClick={() => setActiveKernel(idx)}>
+          <button
+            key={k.name}
+            className={idx === activeKernel ? "tab tab-active" : "tab"}
+            aria-pressed={idx === activeKernel}
+            onClick={() => setActiveKernel(idx)}
+          >
             {k.name}
           </button>
         ))}
       </div>
 
+      <ExportMenu name="cnn" transport={scan} />
+
       <div className="cnn-layout">
-        <div className="cnn-main">
+        <div
+          className="cnn-main"
+          data-figure
+          {...stepperFigure(
+            format(text.figure, { kernel: activeKernelDef.name, pos: scanIndex + 1, count: scanPositions.length }),
+            scan,
+          )}
+        >
           <div>
             <h3>Input Image + Sliding Kernel</h3>
-            <div className="cnn-grid" style={{ gridTemplateColumns: `repeat(${IMAGE_SIZE}, 1fr)` }}>
-              {image.flatMap((row, y) =>
-                row.map((value, x) => {
-                  const inWindow = x >= scanPos.x && x < scanPos.x + KERNEL_SIZE && y >= scanPos.y && y < scanPos.y + KERNEL_SIZE;
-                  const isTop = topPoints.some((p) => p.x === x && p.y === y);
-                  return (
-                    <div
-                      key={`${x}-${y}`}
-                      className={inWindow ? "cnn-cell cnn-window" : isTop ? "cnn-cell cnn-cell-focus" : "cnn-cell"}
-                      style={{ background: `rgba(148, 218, 255, ${0.08 + value * 0.92})` }}
-                    />
-                  );
-                }),
-              )}
-            </div>
+            <Heatmap
+              matrix={image}
+              colormap={sequentialMap}
+              range={1}
+              outlines={[{ row: scanPos.y, col: scanPos.x, rows: KERNEL_SIZE, cols: KERNEL_SIZE }, ...topCells]}
+              label={format(text.input, { size: IMAGE_SIZE, x: scanPos.x, y: scanPos.y })}
+            />
           </div>
 
           <div>
             <h3>Conv Feature Map ({IMAGE_SIZE}x{IMAGE_SIZE})</h3>
-            <div className="cnn-grid" style={{ gridTemplateColumns: `repeat(${convMap.length}, 1fr)` }}>
-              {convMap.flatMap((row, y) =>
-                row.map((value, x) => {
-                  const isFocus = x === scanPos.x + 1 && y === scanPos.y + 1;
-                  const isTop = topPoints.some((p) => p.x === x && p.y === y);
-                  return (
-                    <div
-                      key={`conv-${x}-${y}`}
-                      className={isFocus || isTop ? "cnn-cell cnn-cell-focus" : "cnn-cell"}
-                      style={{ background: `color-mix(in srgb, ${activeKernelDef.color} ${(6 + (value / convMax) * 94).toFixed(1)}%, #0f2430)` }}
-                    />
-                  );
-                }),
-              )}
-            </div>
+            <Heatmap
+              matrix={convMap}
+              colormap={kernelTint}
+              cellColor={(value) => sampleColormap(kernelTint, 0.06 + (value / convMax) * 0.94)}
+              outlines={[{ row: scanPos.y + 1, col: scanPos.x + 1 }, ...topCells]}
+              label={format(text.featureMap, { kernel: activeKernelDef.name })}
+            />
           </div>
 
           <div>
             <h3>MaxPool to Flatten</h3>
-            <div className="cnn-grid" style={{ gridTemplateColumns: `repeat(${pooled.length}, 1fr)` }}>
-              {pooled.flatMap((row, y) =>
-                row.map((value, x) => (
-                  <div
-                    key={`pool-${x}-${y}`}
-                    className="cnn-cell"
-                    style={{ background: `rgba(172, 243, 191, ${0.06 + (value / poolMax) * 0.94})` }}
-                  />
-                )),
-              )}
-            </div>
+            <Heatmap matrix={pooled} colormap={sequentialMap} label={format(text.pooled, { rows: pooled.rows, cols: pooled.cols })} />
             <div className="cnn-compress">
-              Per channel: {IMAGE_SIZE}x{IMAGE_SIZE} to {pooled.length}x{pooled.length} to {vector.length}
+              Per channel: {IMAGE_SIZE}x{IMAGE_SIZE} to {pooled.rows}x{pooled.cols} to {vector.length}
               <br />
               Three detectors to final features from three channels.
             </div>
@@ -304,7 +250,7 @@ export function CNNViz() {
             <br />
             {activeKernelDef.description}
             <div className="cnn-kernel-mini">
-              {activeKernelDef.matrix.flatMap((row, y) =>
+              {toRows(activeKernelDef.matrix).flatMap((row, y) =>
                 row.map((v, x) => (
                   <div key={`k-${x}-${y}`} className="cnn-kernel-weight">
                     {v}
@@ -323,63 +269,28 @@ export function CNNViz() {
             ))}
           </div>
 
-          <div className="preset-row">
-            <button className="ghost-btn" onClick={() => setScanPlaying((v) => !v)}>
-              {scanPlaying ? "Pause Scan" : "Play Scan"}
-            </button>
-            <button className="ghost-btn" onClick={() => setIterPlaying((v) => !v)}>
-              {iterPlaying ? "Pause Training" : "Play Training"}
-            </button>
-            <button
-              className="ghost-btn"
-              onClick={() => {
-                setScanPlaying(false);
-                setScanIndex((i) => (i - 1 + scanPositions.length) % scanPositions.length);
-              }}
-            >
-              Prev Scan
-            </button>
-            <button
-              className="ghost-btn"
-              onClick={() => {
-                setScanPlaying(false);
-                setScanIndex((i) => (i + 1) % scanPositions.length);
-              }}
-            >
-              Next Scan
-            </button>
-          </div>
-
-          <label>
-            Scan speed: {scanSpeed} ms
-            <input type="range" min={60} max={400} step={10} value={scanSpeed} onChange={(e) => setScanSpeed(Number(e.target.value))} />
-          </label>
-
-          <label>
-            Scan index: {scanIndex + 1}/{scanPositions.length}
-            <input
-              type="range"
-              min={0}
-              max={scanPositions.length - 1}
-              step={1}
-              value={scanIndex}
-              onChange={(e) => {
-                setScanPlaying(false);
-                setScanIndex(Number(e.target.value));
-              }}
-            />
-          </label>
-
-          <label>
-            Training iteration: {iteration}
-            <input type="range" min={1} max={120} step={1} value={iteration} onChange={(e) => setIteration(Number(e.target.value))} />
-          </label>
+          <TransportControls
+            transport={scan}
+            name="Scan"
+            label="Scan index"
+            value={`${scanIndex + 1}/${scanPositions.length}`}
+            speed={{ min: 60, max: 400, step: 10 }}
+          />
+
+          <TransportControls
+            transport={training}
+            name="Training"
+            label="Training iteration"
+            speed={{ min: 120, max: 1000, step: 10 }}
+          />
 
           <label>
             Dropout rate: {(dropRate * 100).toFixed(0)}%
             <input type="range" min={0.1} max={0.75} step={0.01} value={dropRate} onChange={(e) => setDropRate(Number(e.target.value))} />
           </label>
 
+          <SeedControl param={CNN_PARAMS.seed} label="Dropout seed" />
+
           <div className="formula-block">
             Current scan patch activation: {patchActivation.toFixed(3)}
             <br />
@@ -392,7 +303,7 @@ export function CNNViz() {
 
           <div className="formula-block">
             Dropout mask sample
-            <div className="cnn-dropout-row">
+            <div className="cnn-dropout-row" role="img" aria-label={format(text.unitsKept, { kept: keptCount, count: vector.length })}>
               {vector.slice(0, 42).map((v, i) => {
                 const on = droppedMask[i];
                 return (
@@ -404,13 +315,31 @@ export function CNNViz() {
                 );
               })}
             </div>
-            <div className="cnn-dropout-labels">
+            <div className="cnn-dropout-labels" aria-hidden="true">
               <span>active units</span>
               <span>dropped units</span>
             </div>
           </div>
         </div>
       </div>
+
+      <DataTable
+        caption={text.vectorCaption}
+        summary={format(text.vectorSummary, {
+          kernel: activeKernelDef.name.toLowerCase(),
+          points: topPoints.map((p) => `(${p.x}, ${p.y}) ${p.v.toFixed(2)}`).join(", "),
+          kept: keptCount,
+          count: vector.length,
+          iteration,
+        })}
+        columns={["Unit", "Pooled value", "Dropout"]}
+        rows={vector.map((v, i) => [i + 1, v.toFixed(3), droppedMask[i] ? "kept" : "dropped"])}
+      />
+
+      <LiveRegion
+        message={format(text.status, { x: scanPos.x, y: scanPos.y, activation: patchActivation.toFixed(3) })}
+        muted={scan.playing}
+      />
     </section>
   );
 }
@@ -0,0 +1,52 @@
+import type { ReactNode } from "react";
+import { format, useMessages } from "../lib/i18n";
+
+type DataTableProps = {
+  /** Names the disclosure and captions the table. */
+  caption: string;
+  /** A sentence or two reading the figure, above the table. */
+  summary?: ReactNode;
+  columns: readonly string[];
+  /** The first cell of each row is its header. */
+  rows: ReadonlyArray<ReadonlyArray<ReactNode>>;
+};
+
+/** The numbers behind a figure, for screen readers and anyone who wants them. */
+export function DataTable({ caption, summary, columns, rows }: DataTableProps) {
+  const messages = useMessages();
+  return (
+    <details className="data-view">
+      <summary>{format(messages.dataTable, { caption })}</summary>
+      {summary && <p>{summary}</p>}
+      <div className="data-view-scroll">
+        <table>
+          <caption className="sr-only">{caption}</caption>
+          <thead>
+            <tr>
+              {columns.map((column, i) => (
+                <th key={i} scope="col">
+                  {column}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, i) => (
+              <tr key={i}>
+                {row.map((cell, j) =>
+                  j === 0 ? (
+                    <th key={j} scope="row">
+                      {cell}
+                    </th>
+                  ) : (
+                    <td key={j}>{cell}</td>
+                  ),
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </details>
+  );
+}
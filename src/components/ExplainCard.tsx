@@ -0,0 +1,19 @@
+import { isPresenting } from "../lib/deck";
+import type { SpeakerNotes } from "../lib/registry";
+import { useSearch } from "../lib/urlState";
+
+export function ExplainCard({ notes }: { notes: SpeakerNotes }) {
+  const search = useSearch();
+
+  // While presenting, the narration lives in the speaker notes pane instead.
+  if (isPresenting(search)) return null;
+
+  return (
+    <div className="explain-card">
+      <strong>{notes.heading}</strong>
+      {notes.points.map((point) => (
+        <span key={point}>{point}</span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useEffect, useRef, useState } from "react";
+import { captureFigure, downloadBlob, nextPaint, pngBlob, recordWebm, svgBlob, webmType } from "../lib/exportFrame";
+import type { Transport } from "../lib/playback";
+
+const PNG_SCALES = [1, 2, 3, 4] as const;
+
+type ExportMenuProps = {
+  /** File name stem, usually the concept id. */
+  name: string;
+  /** When given, the animation can be recorded frame by frame. */
+  transport?: Transport;
+};
+
+type Status = { kind: "idle" } | { kind: "recording"; done: number; total: number } | { kind: "error"; message: string };
+
+// The figure is the element marked `data-figure` in the same view. The static
+// renderer (scripts/render-static.ts) looks for the same marker.
+export function ExportMenu({ name, transport }: ExportMenuProps) {
+  const root = useRef<HTMLDivElement>(null);
+  const [scale, setScale] = useState<number>(2);
+  const [status, setStatus] = useState<Status>({ kind: "idle" });
+  const recording = useRef<AbortController | null>(null);
+  const transportRef = useRef(transport);
+  transportRef.current = transport;
+
+  useEffect(() => () => recording.current?.abort(), []);
+
+  const findFigure = () => root.current?.parentElement?.querySelector("[data-figure]") ?? null;
+
+  const run = async (task: () => Promise<void>) => {
+    try {
+      await task();
+      setStatus({ kind: "idle" });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        setStatus({ kind: "idle" });
+      } else {
+        setStatus({ kind: "error", message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  };
+
+  const exportSvg = () =>
+    run(async () => {
+      const figure = findFigure();
+      if (figure) downloadBlob(svgBlob(captureFigure(figure)), `${name}.svg`);
+    });
+
+  const exportPng = () =>
+    run(async () => {
+      const figure = findFigure();
+      if (!figure) return;
+      const blob = await pngBlob(captureFigure(figure), scale);
+      downloadBlob(blob, scale === 1 ? `${name}.png` : `${name}@${scale}x.png`);
+    });
+
+  const record = () =>
+    run(async () => {
+      const start = transportRef.current;
+      if (!start) return;
+      const controller = new AbortController();
+      recording.current = controller;
+      const total = start.last - start.first + 1;
+      const resume = { frame: start.frame, playing: start.playing };
+      start.pause();
+      setStatus({ kind: "recording", done: 0, total });
+
+      try {
+        const blob = await recordWebm({
+          figure: findFigure,
+          frameCount: total,
+          frameMs: start.speed,
+          scale: Math.min(scale, 2),
+          showFrame: async (index) => {
+            transportRef.current?.seek(start.first + index);
+            await nextPaint();
+          },
+          onProgress: (done) => setStatus({ kind: "recording", done, total }),
+          signal: controller.signal,
+        });
+        downloadBlob(blob, `${name}.webm`);
+      } finally {
+        recording.current = null;
+        transportRef.current?.seek(resume.frame);
+        if (resume.playing) transportRef.current?.play();
+      }
+    });
+
+  const canRecord = transport !== undefined && webmType() !== null;
+
+  return (
+    <div className="export-menu" role="group" aria-label="Export" ref={root}>
+      <span className="export-label">Export</span>
+      <button className="ghost-btn" onClick={exportSvg}>
+        SVG
+      </button>
+      <button className="ghost-btn" onClick={exportPng}>
+        PNG
+      </button>
+      <select aria-label="PNG resolution" value={scale} onChange={(e) => setScale(Number(e.target.value))}>
+        {PNG_SCALES.map((s) => (
+          <option key={s} value={s}>
+            {s}× resolution
+          </option>
+        ))}
+      </select>
+      {canRecord &&
+        (status.kind === "recording" ? (
+          <button className="ghost-btn" onClick={() => recording.current?.abort()}>
+            Stop recording ({status.done}/{status.total})
+          </button>
+        ) : (
+          <button className="ghost-btn" onClick={record}>
+            Record WebM
+          </button>
+        ))}
+      {status.kind === "error" && (
+        <span className="export-error" role="alert">
+          {status.message}
+        </span>
+      )}
+    </div>
+  );
+}
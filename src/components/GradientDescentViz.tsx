@@ -1,4 +1,15 @@
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo } from "react";
+import { GD_PARAMS } from "../concepts/gd";
+import { format, formatNodes, useMessages } from "../lib/i18n";
+import { stepperFigure } from "../lib/keyboard";
+import { useReportMetrics } from "../lib/metrics";
+import { type PlaybackParams, useIsFollower, usePlayback } from "../lib/playback";
+import { sampleColormap, useTheme } from "../lib/theme";
+import { useUrlParam } from "../lib/urlState";
+import { DataTable } from "./DataTable";
+import { ExportMenu } from "./ExportMenu";
+import { LiveRegion } from "./LiveRegion";
+import { TransportControls } from "./TransportControls";
 
 type Vec2 = { x: number; y: number };
 type Vec3 = { x: number; y: number; z: number };
@@ -19,6 +30,13 @@ const CHART_H = 92;
 const LOSS_A = 0.6;
 const LOSS_B = 1.4;
 
+const PLAYBACK: PlaybackParams = {
+  frame: GD_PARAMS.visibleStep,
+  playing: GD_PARAMS.isPlaying,
+  speed: GD_PARAMS.speedMs,
+  loop: GD_PARAMS.loop,
+};
+
 function loss(x: number, y: number) {
   return LOSS_A * x * x + LOSS_B * y * y;
 }
@@ -95,38 +113,23 @@ function project(point: Vec3, yaw: number, pitch: number): Projected {
   };
 }
 
-// Coolwarm-like colormap: deep blue → white → deep red.
-function colorFromZ(z: number, zMin: number, zMax: number): string {
-  const t = Math.max(0, Math.min(1, (z - zMin) / (zMax - zMin + 1e-9)));
-  const c1 = [59, 76, 192];
-  const c2 = [221, 221, 221];
-  const c3 = [180, 4, 38];
-  let rgb: number[];
-  if (t < 0.5) {
-    const u = t * 2;
-    rgb = c1.map((a, i) => Math.round(a + (c2[i] - a) * u));
-  } else {
-    const u = (t - 0.5) * 2;
-    rgb = c2.map((a, i) => Math.round(a + (c3[i] - a) * u));
-  }
-  return `rgb(${rgb[0]},${rgb[1]},${rgb[2]})`;
-}
-
 export function GradientDescentViz() {
-  const [startX, setStartX] = useState(-0.85);
-  const [startY, setStartY] = useState(0.85);
-  const [lr, setLr] = useState(0.66);
-  const [adamLr, setAdamLr] = useState(0.12);
-  const [steps, setSteps] = useState(40);
-  const [beta1, setBeta1] = useState(0.9);
-  const [beta2, setBeta2] = useState(0.999);
-  const [yaw, setYaw] = useState(-38);
-  const [pitch, setPitch] = useState(-55);
-  const [showSGD, setShowSGD] = useState(true);
-  const [showAdam, setShowAdam] = useState(true);
-  const [isPlaying, setIsPlaying] = useState(true);
-  const [speedMs, setSpeedMs] = useState(180);
-  const [visibleStep, setVisibleStep] = useState(0);
+  const [[startX, startY], setStart] = useUrlParam(GD_PARAMS.start);
+  const [lr, setLr] = useUrlParam(GD_PARAMS.lr);
+  const [adamLr, setAdamLr] = useUrlParam(GD_PARAMS.adamLr);
+  const [steps, setSteps] = useUrlParam(GD_PARAMS.steps);
+  const [beta1, setBeta1] = useUrlParam(GD_PARAMS.beta1);
+  const [beta2, setBeta2] = useUrlParam(GD_PARAMS.beta2);
+  const [yaw, setYaw] = useUrlParam(GD_PARAMS.yaw);
+  const [pitch, setPitch] = useUrlParam(GD_PARAMS.pitch);
+  const [showSGD, setShowSGD] = useUrlParam(GD_PARAMS.showSGD);
+  const [showAdam, setShowAdam] = useUrlParam(GD_PARAMS.showAdam);
+  const follower = useIsFollower();
+  const { palette, sequentialMap } = useTheme();
+  const messages = useMessages();
+  const text = messages.gd;
+  const sgdColor = palette.series[1];
+  const adamColor = palette.series[0];
 
   const sgdPath = useMemo(
     () => runSGD({ x: startX, y: startY }, lr, steps),
@@ -171,28 +174,24 @@ export function GradientDescentViz() {
         const q01 = project(p01, yaw, pitch);
         const avgZ = (p00.z + p10.z + p11.z + p01.z) / 4;
         const avgD = (q00.depth + q10.depth + q11.depth + q01.depth) / 4;
-        const fill = colorFromZ(avgZ, surface.zMin, surface.zMax);
+        const fill = sampleColormap(sequentialMap, (avgZ - surface.zMin) / (surface.zMax - surface.zMin + 1e-9));
         const d = `M ${q00.sx.toFixed(1)} ${q00.sy.toFixed(1)} L ${q10.sx.toFixed(1)} ${q10.sy.toFixed(1)} L ${q11.sx.toFixed(1)} ${q11.sy.toFixed(1)} L ${q01.sx.toFixed(1)} ${q01.sy.toFixed(1)} Z`;
         list.push({ d, fill, depth: avgD });
       }
     }
     list.sort((a, b) => a.depth - b.depth);
     return list;
-  }, [surface, yaw, pitch]);
-
-  useEffect(() => {
-    setVisibleStep(0);
-  }, [startX, startY, lr, adamLr, steps, beta1, beta2]);
+  }, [surface, yaw, pitch, sequentialMap]);
 
   const maxStep = Math.max(sgdPath.length, adamPath.length) - 1;
+  const transport = usePlayback(PLAYBACK, 0, maxStep);
+  const visibleStep = transport.frame;
+  const { seek } = transport;
 
   useEffect(() => {
-    if (!isPlaying) return;
-    const id = window.setInterval(() => {
-      setVisibleStep((s) => (s >= maxStep ? 0 : s + 1));
-    }, speedMs);
-    return () => window.clearInterval(id);
-  }, [isPlaying, speedMs, maxStep]);
+    if (follower) return;
+    seek(0);
+  }, [follower, seek, startX, startY, lr, adamLr, steps, beta1, beta2]);
 
   const sgdProj = useMemo(
     () => sgdPath.map((p) => project(p, yaw, pitch)),
@@ -220,6 +219,15 @@ export function GradientDescentViz() {
   const sgdFinal = sgdPath[sgdPath.length - 1];
   const adamFinal = adamPath[adamPath.length - 1];
 
+  useReportMetrics([
+    { label: "Final SGD loss", value: sgdFinal.z, digits: 4 },
+    { label: "Final Adam loss", value: adamFinal.z, digits: 4 },
+    // Labels stay fixed so a pinned snapshot lines up with the live view.
+    { label: "Step", value: visibleStep, digits: 0 },
+    { label: "SGD loss", value: sgdCur.z, digits: 4 },
+    { label: "Adam loss", value: adamCur.z, digits: 4 },
+  ]);
+
   const chartMax = Math.max(
     1e-9,
     ...sgdPath.map((p) => p.z),
@@ -247,16 +255,23 @@ export function GradientDescentViz() {
     <section>
       <h2>Gradient Descent &amp; Adam Optimizer</h2>
       <p className="subtext">
-        Watch <span style={{ color: "#ffbd4a" }}>SGD</span> and{" "}
-        <span style={{ color: "#4fd0ff" }}>Adam</span> race down an asymmetric
-        loss bowl. SGD uses a single learning rate and oscillates in the
-        steep y direction; Adam adapts its step size per parameter and glides
-        straight toward the minimum.
+        {formatNodes(messages.intros.gd, {
+          sgd: <span style={{ color: sgdColor }}>SGD</span>,
+          adam: <span style={{ color: adamColor }}>Adam</span>,
+        })}
       </p>
 
+      <ExportMenu name="gradient-descent" transport={transport} />
+
       <div className="viz-layout">
-        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="viz-canvas">
-          <rect width={WIDTH} height={HEIGHT} fill="#f5f7fb" />
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="viz-canvas"
+          data-figure
+          data-tour="surface"
+          {...stepperFigure(format(text.figure, { step: visibleStep, count: maxStep }), transport)}
+        >
+          <rect width={WIDTH} height={HEIGHT} fill={palette.plotBg} />
 
           {quads.map((q, i) => (
             <path
@@ -273,7 +288,7 @@ export function GradientDescentViz() {
             <path
               d={sgdPathD}
               fill="none"
-              stroke="#e89417"
+              stroke={sgdColor}
               strokeWidth="3"
               strokeLinecap="round"
               strokeLinejoin="round"
@@ -286,8 +301,8 @@ export function GradientDescentViz() {
                 cx={q.sx}
                 cy={q.sy}
                 r={i === sgdIdx ? 5.2 : 2.5}
-                fill="#ffbd4a"
-                stroke="#3a2300"
+                fill={sgdColor}
+                stroke={palette.plotBg}
                 strokeWidth={i === sgdIdx ? 1.5 : 0.5}
               />
             ))}
@@ -296,7 +311,7 @@ export function GradientDescentViz() {
             <path
               d={adamPathD}
               fill="none"
-              stroke="#1798c4"
+              stroke={adamColor}
               strokeWidth="3"
               strokeLinecap="round"
               strokeLinejoin="round"
@@ -309,8 +324,8 @@ export function GradientDescentViz() {
                 cx={q.sx}
                 cy={q.sy}
                 r={i === adamIdx ? 5.2 : 2.5}
-                fill="#4fd0ff"
-                stroke="#002230"
+                fill={adamColor}
+                stroke={palette.plotBg}
                 strokeWidth={i === adamIdx ? 1.5 : 0.5}
               />
             ))}
@@ -321,7 +336,7 @@ export function GradientDescentViz() {
               y1={startProj.sy - 8}
               x2={startProj.sx + 8}
               y2={startProj.sy + 8}
-              stroke="#d62525"
+              stroke={palette.negative}
               strokeWidth="2.6"
               strokeLinecap="round"
             />
@@ -330,7 +345,7 @@ export function GradientDescentViz() {
               y1={startProj.sy - 8}
               x2={startProj.sx - 8}
               y2={startProj.sy + 8}
-              stroke="#d62525"
+              stroke={palette.negative}
               strokeWidth="2.6"
               strokeLinecap="round"
             />
@@ -343,57 +358,32 @@ export function GradientDescentViz() {
               width={148}
               height={60}
               rx={8}
-              fill="rgba(255,255,255,0.88)"
-              stroke="#8aa0b4"
+              fill={palette.plotBg}
+              fillOpacity={0.88}
+              stroke={palette.plotAxis}
             />
-            <circle cx={WIDTH - 148} cy={32} r={5} fill="#ffbd4a" stroke="#3a2300" />
-            <text x={WIDTH - 136} y={36} fontSize="11" fill="#102430">
+            <circle cx={WIDTH - 148} cy={32} r={5} fill={sgdColor} stroke={palette.plotBg} />
+            <text x={WIDTH - 136} y={36} fontSize="11" fill={palette.text}>
               SGD — fixed η
             </text>
-            <circle cx={WIDTH - 148} cy={56} r={5} fill="#4fd0ff" stroke="#002230" />
-            <text x={WIDTH - 136} y={60} fontSize="11" fill="#102430">
+            <circle cx={WIDTH - 148} cy={56} r={5} fill={adamColor} stroke={palette.plotBg} />
+            <text x={WIDTH - 136} y={60} fontSize="11" fill={palette.text}>
               Adam — β₁, β₂
             </text>
           </g>
 
-          <text x={16} y={26} fontSize="12" fill="#2b3a4a">
+          <text x={16} y={26} fontSize="12" fill={palette.text}>
             L(x, y) = {LOSS_A.toFixed(2)} x² + {LOSS_B.toFixed(2)} y²
           </text>
         </svg>
 
         <div className="controls">
-          <div className="preset-row">
-            <button className="ghost-btn" onClick={() => setIsPlaying((v) => !v)}>
-              {isPlaying ? "Pause" : "Play"}
-            </button>
-            <button
-              className="ghost-btn"
-              onClick={() => {
-                setIsPlaying(false);
-                setVisibleStep(0);
-              }}
-            >
-              Reset
-            </button>
-            <button
-              className="ghost-btn"
-              onClick={() => {
-                setIsPlaying(false);
-                setVisibleStep((s) => Math.max(0, s - 1));
-              }}
-            >
-              Prev
-            </button>
-            <button
-              className="ghost-btn"
-              onClick={() => {
-                setIsPlaying(false);
-                setVisibleStep((s) => Math.min(maxStep, s + 1));
-              }}
-            >
-              Next
-            </button>
-          </div>
+          <TransportControls
+            transport={transport}
+            label="Step"
+            value={`${visibleStep}/${maxStep}`}
+            speed={{ min: 60, max: 500, step: 10 }}
+          />
 
           <div className="preset-row">
             <label style={{ display: "inline-flex", gap: "0.3rem", alignItems: "center", fontSize: "0.85rem" }}>
@@ -414,18 +404,6 @@ export function GradientDescentViz() {
             </label>
           </div>
 
-          <label>
-            Animation speed: {speedMs} ms/step
-            <input
-              type="range"
-              min={60}
-              max={500}
-              step={10}
-              value={speedMs}
-              onChange={(e) => setSpeedMs(Number(e.target.value))}
-            />
-          </label>
-
           <label>
             Start x: {startX.toFixed(2)}
             <input
@@ -434,7 +412,7 @@ export function GradientDescentViz() {
               max={0.95}
               step={0.05}
               value={startX}
-              onChange={(e) => setStartX(Number(e.target.value))}
+              onChange={(e) => setStart(([, y]) => [Number(e.target.value), y])}
             />
           </label>
 
@@ -446,7 +424,7 @@ export function GradientDescentViz() {
               max={0.95}
               step={0.05}
               value={startY}
-              onChange={(e) => setStartY(Number(e.target.value))}
+              onChange={(e) => setStart(([x]) => [x, Number(e.target.value)])}
             />
           </label>
 
@@ -534,54 +512,44 @@ export function GradientDescentViz() {
             />
           </label>
 
-          <label>
-            Step: {visibleStep}/{maxStep}
-            <input
-              type="range"
-              min={0}
-              max={maxStep}
-              step={1}
-              value={visibleStep}
-              onChange={(e) => {
-                setIsPlaying(false);
-                setVisibleStep(Number(e.target.value));
-              }}
-            />
-          </label>
-
           <div className="formula-block">
             <div>
-              <span style={{ color: "#ffbd4a" }}>SGD</span> loss{" "}
+              <span style={{ color: sgdColor }}>SGD</span> loss{" "}
               {sgdCur.z.toFixed(4)} @ ({sgdCur.x.toFixed(2)},{" "}
               {sgdCur.y.toFixed(2)})
             </div>
             <div>
-              <span style={{ color: "#4fd0ff" }}>Adam</span> loss{" "}
+              <span style={{ color: adamColor }}>Adam</span> loss{" "}
               {adamCur.z.toFixed(4)} @ ({adamCur.x.toFixed(2)},{" "}
               {adamCur.y.toFixed(2)})
             </div>
-            <div style={{ marginTop: "0.35rem", color: "#b4d3e5" }}>
+            <div style={{ marginTop: "0.35rem", color: palette.muted }}>
               Final — SGD {sgdFinal.z.toFixed(4)} · Adam{" "}
               {adamFinal.z.toFixed(4)}
             </div>
           </div>
 
-          <div className="formula-block loss-chart-block">
+          <div className="formula-block loss-chart-block" data-tour="loss-chart">
             Loss by step
-            <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} className="loss-chart">
-              <rect x="0" y="0" width={CHART_W} height={CHART_H} fill="#0a1a24" />
+            <svg
+              viewBox={`0 0 ${CHART_W} ${CHART_H}`}
+              className="loss-chart"
+              role="img"
+              aria-label={format(text.lossChart, { step: visibleStep })}
+            >
+              <rect x="0" y="0" width={CHART_W} height={CHART_H} fill={palette.plotBg} />
               {showSGD && (
-                <path d={sgdChartD} fill="none" stroke="#ffbd4a" strokeWidth="2" />
+                <path d={sgdChartD} fill="none" stroke={sgdColor} strokeWidth="2" />
               )}
               {showAdam && (
-                <path d={adamChartD} fill="none" stroke="#4fd0ff" strokeWidth="2" />
+                <path d={adamChartD} fill="none" stroke={adamColor} strokeWidth="2" />
               )}
               <line
                 x1={markerX}
                 y1={0}
                 x2={markerX}
                 y2={CHART_H}
-                stroke="#eaf7ff"
+                stroke={palette.text}
                 strokeDasharray="3 3"
               />
             </svg>
@@ -591,9 +559,9 @@ export function GradientDescentViz() {
             className="formula-block"
             style={{ fontSize: "0.78rem", lineHeight: 1.65 }}
           >
-            <strong style={{ color: "#ffbd4a" }}>SGD:</strong> θ ← θ − η ∇L
+            <strong style={{ color: sgdColor }}>SGD:</strong> θ ← θ − η ∇L
             <br />
-            <strong style={{ color: "#4fd0ff" }}>Adam:</strong>
+            <strong style={{ color: adamColor }}>Adam:</strong>
             <br />
             m ← β₁·m + (1−β₁)·∇L
             <br />
@@ -603,6 +571,22 @@ export function GradientDescentViz() {
           </div>
         </div>
       </div>
+
+      <DataTable
+        caption={text.lossCaption}
+        summary={format(text.lossSummary, { sgd: sgdFinal.z.toFixed(4), adam: adamFinal.z.toFixed(4) })}
+        columns={["Step", "SGD loss", "Adam loss"]}
+        rows={Array.from({ length: maxStep + 1 }, (_, i) => [
+          i,
+          sgdPath[i]?.z.toFixed(4) ?? "–",
+          adamPath[i]?.z.toFixed(4) ?? "–",
+        ])}
+      />
+
+      <LiveRegion
+        message={format(text.status, { step: visibleStep, count: maxStep, sgd: sgdCur.z.toFixed(4), adam: adamCur.z.toFixed(4) })}
+        muted={transport.playing}
+      />
     </section>
   );
 }
@@ -0,0 +1,86 @@
+import { type ReactNode, useEffect, useMemo, useState } from "react";
+import { whenComputationsSettle } from "../lib/compute";
+import { loadConcept } from "../lib/conceptLoader";
+import type { Slide } from "../lib/deck";
+import { nextPaint } from "../lib/exportFrame";
+import { closeHandout, handoutConcepts, handoutParams } from "../lib/handout";
+import { type ConceptDefinition, getConcept } from "../lib/registry";
+import { ParamScope, frozenStore } from "../lib/urlState";
+
+type HandoutProps = {
+  title: string;
+  slides: Slide[];
+  render: (concept: ConceptDefinition) => ReactNode;
+};
+
+function HandoutStep({ slide, index, render }: { slide: Slide; index: number; render: HandoutProps["render"] }) {
+  const concept = getConcept(slide.concept);
+  const store = useMemo(() => frozenStore(handoutParams(slide)), [slide]);
+  if (!concept) return null;
+
+  return (
+    <article className="handout-step">
+      <h2>
+        {index + 1}. {slide.title}
+      </h2>
+      {slide.title !== concept.label && <p className="subtext">{concept.label}</p>}
+      {slide.notes && slide.notes.length > 0 && (
+        <div className="handout-narration">
+          {slide.notes.map((line) => (
+            <p key={line}>{line}</p>
+          ))}
+        </div>
+      )}
+      <ParamScope value={store}>{render(concept)}</ParamScope>
+    </article>
+  );
+}
+
+/**
+ * Printable notes: every slide rendered at its state, one after another.
+ * Controls are hidden by the stylesheet; formulas, explain cards and
+ * narration stay.
+ */
+export function Handout({ title, slides, render }: HandoutProps) {
+  const [ready, setReady] = useState(false);
+
+  // Printing before a chunk or its data arrives would leave loading text on
+  // paper, and before the views' worker tasks finish, empty figures.
+  useEffect(() => {
+    let cancelled = false;
+    setReady(false);
+    Promise.all(handoutConcepts(slides).map((concept) => Promise.all([loadConcept(concept), concept.preload?.()])))
+      .catch(() => {})
+      .then(nextPaint)
+      .then(whenComputationsSettle)
+      .then(nextPaint)
+      .finally(() => {
+        if (!cancelled) setReady(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [slides]);
+
+  return (
+    <div className="handout">
+      <div className="handout-bar" role="group" aria-label="Handout">
+        <button className="ghost-btn" onClick={() => window.print()} disabled={!ready}>
+          {ready ? "Print or save as PDF" : "Loading…"}
+        </button>
+        <button className="ghost-btn" onClick={closeHandout}>
+          Close handout
+        </button>
+      </div>
+      <header className="hero">
+        <h1>{title}</h1>
+        <p>
+          {slides.length} {slides.length === 1 ? "state" : "states"} · {new Date().toLocaleDateString()}
+        </p>
+      </header>
+      {slides.map((slide, i) => (
+        <HandoutStep key={i} slide={slide} index={i} render={render} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import { type PointerEvent, useEffect, useLayoutEffect, useRef, useState } from "react";
+import { type Matrix, at, maxAbs, maxValue } from "../lib/math";
+import { type Colormap, sampleColormap, sampleDiverging, useTheme } from "../lib/theme";
+
+// One canvas per matrix instead of one styled div per cell, so a 64×64 map
+// costs a single element. The backing store follows the device pixel ratio
+// and cell edges are snapped to whole device pixels, which keeps small
+// matrices crisp at any zoom. Static renders have no canvas and get the same
+// picture as SVG rects.
+
+export type HeatmapCell = { row: number; col: number; value: number };
+
+export type HeatmapOutline = {
+  row: number;
+  col: number;
+  /** Size of the outlined block in cells; defaults to one cell. */
+  rows?: number;
+  cols?: number;
+};
+
+type HeatmapProps = {
+  matrix: Matrix;
+  /** Sequential maps read values in [0, range]; diverging maps in [−range, range]. */
+  colormap: Colormap;
+  /** Defaults to the largest value, or the largest magnitude for a diverging map. */
+  range?: number;
+  /** Overrides the colormap for some or all cells, e.g. masked cells or a series tint. */
+  cellColor?: (value: number, row: number, col: number) => string | undefined;
+  /** Blocks outlined in the theme's emphasis color: a kernel window, the strongest responses. */
+  outlines?: readonly HeatmapOutline[];
+  /** Gap between cells in CSS pixels. */
+  gap?: number;
+  /** Width in CSS pixels; fills its container when omitted. */
+  width?: number;
+  /** Accessible name; omit for a decorative map. */
+  label?: string;
+  /** How the hover readout prints a value. */
+  formatValue?: (value: number) => string;
+  onHover?: (cell: HeatmapCell | null) => void;
+  className?: string;
+};
+
+// Static renders run no effects either way; this only keeps React from warning there.
+const useDrawEffect = typeof window === "undefined" ? useEffect : useLayoutEffect;
+
+// Nominal cell size, in the same units as `gap`, that fixes the aspect ratio.
+const CELL_UNITS = 10;
+
+function layout(count: number, extent: number, gap: number) {
+  const cell = (extent - gap * (count - 1)) / count;
+  return (index: number) => {
+    const start = Math.round(index * (cell + gap));
+    return [start, Math.max(1, Math.round(index * (cell + gap) + cell) - start)] as const;
+  };
+}
+
+export function Heatmap({
+  matrix,
+  colormap,
+  range,
+  cellColor,
+  outlines = [],
+  gap = 2,
+  width,
+  label,
+  formatValue = (value) => value.toFixed(3),
+  onHover,
+  className,
+}: HeatmapProps) {
+  const { palette } = useTheme();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawRef = useRef(() => {});
+  const [hovered, setHovered] = useState<HeatmapCell | null>(null);
+
+  const diverging = colormap.kind === "diverging";
+  const scale = range ?? (diverging ? maxAbs(matrix.data) : maxValue(matrix.data));
+  const colorAt = (row: number, col: number) => {
+    const value = at(matrix, row, col);
+    return (
+      cellColor?.(value, row, col) ??
+      (diverging ? sampleDiverging(colormap, value / scale) : sampleColormap(colormap, value / scale))
+    );
+  };
+
+  const unitsWide = matrix.cols * CELL_UNITS + (matrix.cols - 1) * gap;
+  const unitsHigh = matrix.rows * CELL_UNITS + (matrix.rows - 1) * gap;
+
+  // Redrawn on every render: cheaper than diffing, and a canvas has no DOM to thrash.
+  useDrawEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    drawRef.current = () => {
+      const ratio = window.devicePixelRatio || 1;
+      const w = Math.max(1, Math.round(canvas.clientWidth * ratio));
+      const h = Math.max(1, Math.round(canvas.clientHeight * ratio));
+      if (canvas.width !== w) canvas.width = w;
+      if (canvas.height !== h) canvas.height = h;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return;
+
+      const xs = layout(matrix.cols, w, gap * ratio);
+      const ys = layout(matrix.rows, h, gap * ratio);
+      ctx.clearRect(0, 0, w, h);
+      for (let r = 0; r < matrix.rows; r += 1) {
+        const [y, ch] = ys(r);
+        for (let c = 0; c < matrix.cols; c += 1) {
+          const [x, cw] = xs(c);
+          ctx.fillStyle = colorAt(r, c);
+          ctx.fillRect(x, y, cw, ch);
+        }
+      }
+
+      const line = Math.max(1, Math.round(ratio));
+      ctx.strokeStyle = palette.emphasis;
+      ctx.lineWidth = line;
+      for (const outline of outlines) {
+        const [x0] = xs(outline.col);
+        const [y0] = ys(outline.row);
+        const [x1, lastW] = xs(outline.col + (outline.cols ?? 1) - 1);
+        const [y1, lastH] = ys(outline.row + (outline.rows ?? 1) - 1);
+        ctx.strokeRect(x0 + line / 2, y0 + line / 2, x1 + lastW - x0 - line, y1 + lastH - y0 - line);
+      }
+    };
+    drawRef.current();
+  });
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(() => drawRef.current());
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  const hover = (cell: HeatmapCell | null) => {
+    setHovered(cell);
+    onHover?.(cell);
+  };
+
+  const onPointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    const box = event.currentTarget.getBoundingClientRect();
+    const col = Math.floor(((event.clientX - box.left) / box.width) * matrix.cols);
+    const row = Math.floor(((event.clientY - box.top) / box.height) * matrix.rows);
+    if (row < 0 || row >= matrix.rows || col < 0 || col >= matrix.cols) {
+      hover(null);
+    } else if (row !== hovered?.row || col !== hovered?.col) {
+      hover({ row, col, value: at(matrix, row, col) });
+    }
+  };
+
+  const inBounds = hovered !== null && hovered.row < matrix.rows && hovered.col < matrix.cols;
+  const a11y = label ? { role: "img", "aria-label": label } : { "aria-hidden": true };
+  const classes = className ? `heatmap ${className}` : "heatmap";
+  const size = { width: width ?? "100%", aspectRatio: `${unitsWide} / ${unitsHigh}` };
+
+  if (typeof window === "undefined") {
+    const pitch = CELL_UNITS + gap;
+    return (
+      <div className={classes} {...a11y}>
+        <svg viewBox={`0 0 ${unitsWide} ${unitsHigh}`} style={size} shapeRendering="crispEdges">
+          {Array.from({ length: matrix.rows }, (_, r) =>
+            Array.from({ length: matrix.cols }, (_, c) => (
+              <rect key={`${r}-${c}`} x={c * pitch} y={r * pitch} width={CELL_UNITS} height={CELL_UNITS} fill={colorAt(r, c)} />
+            )),
+          )}
+          {outlines.map((outline, i) => (
+            <rect
+              key={`outline-${i}`}
+              x={outline.col * pitch}
+              y={outline.row * pitch}
+              width={(outline.cols ?? 1) * pitch - gap}
+              height={(outline.rows ?? 1) * pitch - gap}
+              fill="none"
+              stroke={palette.emphasis}
+              strokeWidth={1.5}
+            />
+          ))}
+        </svg>
+      </div>
+    );
+  }
+
+  return (
+    <div className={classes} {...a11y}>
+      <div className="heatmap-plot">
+        <canvas ref={canvasRef} style={size} onPointerMove={onPointerMove} onPointerLeave={() => hover(null)} />
+        {inBounds && (
+          <div
+            className="heatmap-readout"
+            aria-hidden="true"
+            data-export-skip
+            style={{
+              left: `${((hovered.col + 0.5) / matrix.cols) * 100}%`,
+              top: `${(hovered.row / matrix.rows) * 100}%`,
+            }}
+          >
+            ({hovered.row}, {hovered.col}) {formatValue(at(matrix, hovered.row, hovered.col))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
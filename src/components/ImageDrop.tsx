@@ -0,0 +1,114 @@
+import { type ClipboardEvent, type DragEvent, useRef, useState } from "react";
+
+type ImageDropProps = {
+  /** Receives the dropped, pasted or chosen file; a rejection is shown as the error. */
+  onImage: (image: Blob) => Promise<void>;
+};
+
+function imageFrom(items: DataTransferItemList | undefined) {
+  const item = Array.from(items ?? []).find((entry) => entry.kind === "file" && entry.type.startsWith("image/"));
+  return item?.getAsFile() ?? null;
+}
+
+/**
+ * Takes a picture three ways: dropped on the zone, pasted while the zone has
+ * focus (or with the Paste button), or chosen with the file picker.
+ */
+export function ImageDrop({ onImage }: ImageDropProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const canReadClipboard = typeof navigator !== "undefined" && typeof navigator.clipboard?.read === "function";
+
+  const accept = (image: Blob | null) => {
+    if (!image) {
+      setError("No image found there");
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    onImage(image)
+      .catch((reason: unknown) => setError(reason instanceof Error ? reason.message : "Could not read the image"))
+      .finally(() => setBusy(false));
+  };
+
+  const onDrop = (event: DragEvent) => {
+    event.preventDefault();
+    setDragging(false);
+    accept(imageFrom(event.dataTransfer.items) ?? event.dataTransfer.files[0] ?? null);
+  };
+
+  const onPaste = (event: ClipboardEvent) => {
+    const image = imageFrom(event.clipboardData.items);
+    if (!image) return;
+    event.preventDefault();
+    accept(image);
+  };
+
+  const pasteFromClipboard = async () => {
+    try {
+      const items = await navigator.clipboard.read();
+      for (const item of items) {
+        const type = item.types.find((t) => t.startsWith("image/"));
+        if (type) {
+          accept(await item.getType(type));
+          return;
+        }
+      }
+      setError("The clipboard holds no image");
+    } catch {
+      setError("Clipboard access was refused; press Ctrl+V (Cmd+V) on the drop zone instead");
+    }
+  };
+
+  return (
+    <div className="image-drop-control">
+      <div
+        className={dragging ? "image-drop image-drop-active" : "image-drop"}
+        tabIndex={0}
+        role="group"
+        aria-label="Image drop zone: drop or paste an image"
+        aria-busy={busy}
+        onDragOver={(event) => {
+          event.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={onDrop}
+        onPaste={onPaste}
+      >
+        {busy ? "Reading image..." : "Drop an image here, or focus this box and paste one"}
+      </div>
+
+      <div className="preset-row">
+        <button className="ghost-btn" onClick={() => fileInput.current?.click()}>
+          Choose image...
+        </button>
+        {canReadClipboard && (
+          <button className="ghost-btn" onClick={() => void pasteFromClipboard()}>
+            Paste image
+          </button>
+        )}
+      </div>
+
+      <input
+        ref={fileInput}
+        type="file"
+        accept="image/*"
+        hidden
+        onChange={(event) => {
+          const file = event.target.files?.[0] ?? null;
+          event.target.value = "";
+          if (file) accept(file);
+        }}
+      />
+
+      {error && (
+        <p className="image-drop-error" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
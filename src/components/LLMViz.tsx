@@ -1,4 +1,20 @@
-import { useEffect, useMemo, useState } from "react";
+import { useMemo } from "react";
+import { LLM_PARAMS } from "../concepts/llm";
+import { format, useMessages } from "../lib/i18n";
+import { stepperFigure } from "../lib/keyboard";
+import { argmax, dot, fromRows, normalizeSum, softmax } from "../lib/math";
+import { useReportMetrics } from "../lib/metrics";
+import { type PlaybackParams, usePlayback } from "../lib/playback";
+import { createRng } from "../lib/random";
+import { sampleColormap, tintColormap, useTheme } from "../lib/theme";
+import { useUrlParam } from "../lib/urlState";
+import { DataTable } from "./DataTable";
+import { ExplainCard } from "./ExplainCard";
+import { ExportMenu } from "./ExportMenu";
+import { Heatmap } from "./Heatmap";
+import { LiveRegion } from "./LiveRegion";
+import { SeedControl } from "./SeedControl";
+import { TransportControls } from "./TransportControls";
 
 const TOKENS = [
   "Researchers",
@@ -16,29 +32,14 @@ const ROLES = ["subject", "verb", "object", "connector", "verb", "object", "prep
 const TOPIC = ["agent", "analysis", "analysis", "link", "writing", "writing", "target", "target", "time"] as const;
 
 const NEXT_VOCAB = ["reports", "teams", "insights", "daily", "." ] as const;
+const EMBED_DIM = 8;
 
-function rolePlain(role: (typeof ROLES)[number]) {
-  if (role === "subject") return "who is doing the action";
-  if (role === "verb") return "the action word";
-  if (role === "object") return "what receives the action";
-  if (role === "prep") return "a relationship word (like for/from)";
-  if (role === "connector") return "a linking word";
-  return "a modifier word";
-}
-
-function topicPlain(topic: (typeof TOPIC)[number]) {
-  if (topic === "analysis") return "analyzing data";
-  if (topic === "writing") return "writing outputs";
-  if (topic === "target") return "audience/receivers";
-  if (topic === "time") return "time/frequency";
-  if (topic === "link") return "joining ideas";
-  return "people/agents";
-}
-
-function normalize(values: number[]) {
-  const s = values.reduce((a, b) => a + b, 0) || 1;
-  return values.map((v) => v / s);
-}
+const PLAYBACK: PlaybackParams = {
+  frame: LLM_PARAMS.contextLen,
+  playing: LLM_PARAMS.playing,
+  speed: LLM_PARAMS.speed,
+  loop: LLM_PARAMS.loop,
+};
 
 function nearestLeft(idx: number, predicate: (role: (typeof ROLES)[number]) => boolean) {
   for (let i = idx - 1; i >= 0; i -= 1) {
@@ -71,7 +72,7 @@ function head1Row(qi: number) {
     row[k] += 0.15 / (qi - k + 1);
   }
 
-  return normalize(row);
+  return normalizeSum(row);
 }
 
 function head2Row(qi: number) {
@@ -89,47 +90,36 @@ function head2Row(qi: number) {
       row[k] += 0.4;
     }
   }
-  return normalize(row);
+  return normalizeSum(row);
 }
 
 function rowToSquare(row: number[], size: number) {
   return Array.from({ length: size }, (_, i) => (i <= row.length - 1 ? row[i] : 0));
 }
 
-function tokenVector(idx: number) {
-  return Array.from({ length: 8 }, (_, d) => Math.sin((idx + 1) * (d + 2)) * 0.7 + Math.cos((idx + 2) * (d + 1)) * 0.3);
-}
-
-function dot(a: number[], b: number[]) {
-  let s = 0;
-  for (let i = 0; i < a.length; i += 1) s += a[i] * b[i];
-  return s;
-}
-
-function softmax(values: number[], temperature: number) {
-  const t = Math.max(0.05, temperature);
-  const scaled = values.map((v) => v / t);
-  const m = Math.max(...scaled);
-  const exps = scaled.map((v) => Math.exp(v - m));
-  const s = exps.reduce((a, b) => a + b, 0);
-  return exps.map((v) => v / (s + 1e-9));
+// Toy 8-d token embeddings and output projection. They only add texture to
+// the logits; the true next word gets a fixed boost, so any seed still
+// predicts the sentence most of the time.
+function buildEmbeddings(seed: number) {
+  const rng = createRng(seed);
+  const vector = (scale: number) => Array.from({ length: EMBED_DIM }, () => rng.uniform(-scale, scale));
+  return {
+    tokens: TOKENS.map(() => vector(1)),
+    vocab: NEXT_VOCAB.map(() => vector(0.85)),
+  };
 }
 
 export function LLMViz() {
-  const [contextLen, setContextLen] = useState(7);
-  const [blend, setBlend] = useState(0.5);
-  const [temperature, setTemperature] = useState(1);
-  const [cellSize, setCellSize] = useState(14);
-  const [playing, setPlaying] = useState(true);
-  const [speed, setSpeed] = useState(900);
-
-  useEffect(() => {
-    if (!playing) return;
-    const timer = window.setInterval(() => {
-      setContextLen((v) => (v >= TOKENS.length ? 4 : v + 1));
-    }, speed);
-    return () => window.clearInterval(timer);
-  }, [playing, speed]);
+  const messages = useMessages();
+  const text = messages.llm;
+  const [blend, setBlend] = useUrlParam(LLM_PARAMS.blend);
+  const [temperature, setTemperature] = useUrlParam(LLM_PARAMS.temperature);
+  const [cellSize, setCellSize] = useUrlParam(LLM_PARAMS.cellSize);
+  const [seed] = useUrlParam(LLM_PARAMS.seed);
+  const embeddings = useMemo(() => buildEmbeddings(seed), [seed]);
+  const { palette } = useTheme();
+  const transport = usePlayback(PLAYBACK, 4, TOKENS.length);
+  const contextLen = transport.frame;
 
   const n = contextLen;
   const queryIdx = n - 1;
@@ -155,87 +145,67 @@ export function LLMViz() {
   const activeH2 = h2[queryIdx];
   const activeMerged = merged[queryIdx];
 
-  const argmax = (arr: number[]) => arr.reduce((best, v, i) => (v > arr[best] ? i : best), 0);
   const h1Target = argmax(activeH1.slice(0, queryIdx + 1));
   const h2Target = argmax(activeH2.slice(0, queryIdx + 1));
   const mTarget = argmax(activeMerged.slice(0, queryIdx + 1));
 
   const contextVec = useMemo(() => {
-    const out = Array.from({ length: 8 }, () => 0);
+    const out = Array.from({ length: EMBED_DIM }, () => 0);
     for (let i = 0; i <= queryIdx; i += 1) {
-      const tv = tokenVector(i);
+      const tv = embeddings.tokens[i];
       for (let d = 0; d < out.length; d += 1) out[d] += activeMerged[i] * tv[d];
     }
     return out;
-  }, [activeMerged, queryIdx]);
-
-  const vocabProj = useMemo(
-    () =>
-      NEXT_VOCAB.map((_, i) => Array.from({ length: 8 }, (_, d) => Math.sin((i + 1) * (d + 2)) * 0.6 + Math.cos((i + 2) * (d + 1)) * 0.25)),
-    [],
-  );
+  }, [activeMerged, queryIdx, embeddings]);
 
   const groundTruth = contextLen < TOKENS.length ? TOKENS[contextLen] : ".";
   const truthIdx = NEXT_VOCAB.findIndex((v) => v === groundTruth);
 
   const probs = useMemo(() => {
-    const logits = vocabProj.map((v) => dot(v, contextVec));
+    const logits = embeddings.vocab.map((v) => dot(v, contextVec));
     if (truthIdx >= 0) {
       logits[truthIdx] += 2.8;
     }
     return softmax(logits, temperature);
-  }, [vocabProj, contextVec, temperature, truthIdx]);
+  }, [embeddings, contextVec, temperature, truthIdx]);
   const nextIdx = argmax(probs);
 
-  const renderMatrix = (matrix: number[][], title: string, kind: "syntax" | "semantic") => (
-    <div>
-      <h3>{title}</h3>
-      <div className="llm-matrix-wrap">
-        <div className="llm-matrix" style={{ gridTemplateColumns: `repeat(${n}, ${cellSize}px)` }}>
-          {matrix.flatMap((row, r) =>
-            row.map((v, c) => {
-              const masked = c > r;
-              const active = r === queryIdx;
-              return (
-                <div
-                  key={`${title}-${r}-${c}`}
-                  className={masked ? "llm-cell llm-cell-mask" : active ? "llm-cell llm-cell-active" : "llm-cell"}
-                  style={
-                    masked
-                      ? { width: `${cellSize}px`, height: `${cellSize}px` }
-                      : {
-                          width: `${cellSize}px`,
-                          height: `${cellSize}px`,
-                          background:
-                            kind === "syntax"
-                              ? `rgba(255, 201, 128, ${0.08 + v * 0.92})`
-                              : `rgba(142, 205, 255, ${0.08 + v * 0.92})`,
-                        }
-                  }
-                />
-              );
-            }),
-          )}
+  useReportMetrics([
+    { label: "Predicted token", value: NEXT_VOCAB[nextIdx] },
+    { label: "Prediction confidence", value: probs[nextIdx] * 100, digits: 1, unit: "%" },
+    { label: "True next word", value: groundTruth },
+    { label: "Probability of the true word", value: truthIdx >= 0 ? probs[truthIdx] * 100 : 0, digits: 1, unit: "%" },
+  ]);
+
+  const maskColor = sampleColormap(tintColormap(palette.well, palette.inactive), 0.55);
+
+  const renderMatrix = (matrix: number[][], title: string, kind: "syntax" | "semantic") => {
+    const tint = tintColormap(palette.well, kind === "syntax" ? palette.accent : palette.info);
+    return (
+      <div>
+        <h3>{title}</h3>
+        <div className="llm-matrix-wrap">
+          <Heatmap
+            matrix={fromRows(matrix)}
+            colormap={tint}
+            cellColor={(v, r, c) => (c > r ? maskColor : sampleColormap(tint, 0.08 + v * 0.92))}
+            outlines={[{ row: queryIdx, col: 0, cols: n }]}
+            gap={3}
+            width={n * cellSize + (n - 1) * 3}
+            label={format(text.heatmap, { head: title, count: n })}
+            className="llm-matrix"
+          />
         </div>
       </div>
-    </div>
-  );
+    );
+  };
 
   return (
     <section>
       <h2>LLM Method Visualizer</h2>
-      <p className="subtext">
-        This view separates two attention mechanisms: a syntax head (subject/verb links) and a semantic head (topic words), then shows exactly how they merge.
-      </p>
-
-      <div className="explain-card">
-        <strong>How to narrate this</strong>
-        <span>1) Orange head answers a grammar question: "which earlier word helps parse this word?"</span>
-        <span>2) Blue head answers a meaning question: "which earlier word is about the same idea?"</span>
-        <span>3) Blend slider combines both answers into one final attention row.</span>
-        <span>4) That merged row builds context used for next-token prediction.</span>
-        <span>This demo is calibrated to this example sentence, so model prediction stays aligned with the true next word.</span>
-      </div>
+      <p className="subtext">{messages.intros.llm}</p>
+
+      <ExplainCard notes={messages.notes.llm} />
 
       <div className="llm-context-row">
         {TOKENS.map((token, idx) => {
@@ -251,26 +221,32 @@ export function LLMViz() {
         <span className="llm-next">{NEXT_VOCAB[nextIdx]}</span>
       </div>
 
-      <div className="llm-layout llm-layout-wide">
+      <ExportMenu name="llm" />
+
+      <div
+        className="llm-layout llm-layout-wide"
+        data-figure
+        {...stepperFigure(format(text.figure, { count: n }), transport)}
+      >
         <div>
           {renderMatrix(h1, "Head 1 (Syntax)", "syntax")}
           <div className="formula-block">
-            Current word: "{visibleTokens[queryIdx]}"
+            {format(text.currentWord, { word: visibleTokens[queryIdx] })}
             <br />
-            Grammar role of current word: {rolePlain(ROLES[queryIdx])}
+            {format(text.grammarRole, { role: text.roles[ROLES[queryIdx]] })}
             <br />
-            Orange head looked most at "{visibleTokens[h1Target]}" ({rolePlain(ROLES[h1Target])})
+            {format(text.syntaxLookedAt, { word: visibleTokens[h1Target], role: text.roles[ROLES[h1Target]] })}
           </div>
         </div>
 
         <div>
           {renderMatrix(h2, "Head 2 (Semantic)", "semantic")}
           <div className="formula-block">
-            Blue head looked most at "{visibleTokens[h2Target]}"
+            {format(text.semanticLookedAt, { word: visibleTokens[h2Target] })}
             <br />
-            Shared meaning theme: {topicPlain(TOPIC[h2Target])}
+            {format(text.sharedTheme, { topic: text.topics[TOPIC[h2Target]] })}
             <br />
-            Dark cells = future words to the right (model is not allowed to read them).
+            {text.futureCells}
           </div>
         </div>
 
@@ -280,19 +256,19 @@ export function LLMViz() {
             {visibleTokens.map((token, i) => (
               <div key={i} className="llm-merge-item">
                 <span className="llm-merge-token">{token}</span>
-                <div className="llm-merge-bars">
+                <div className="llm-merge-bars" aria-hidden="true">
                   <div className="llm-merge-h1" style={{ width: `${activeH1[i] * 100}%` }} />
                   <div className="llm-merge-h2" style={{ width: `${activeH2[i] * 100}%` }} />
                 </div>
                 <span>{(activeMerged[i] * 100).toFixed(1)}%</span>
               </div>
             ))}
-            <div className="llm-pred">Merged strongest target: {visibleTokens[mTarget]}</div>
+            <div className="llm-pred">{format(text.mergedTarget, { word: visibleTokens[mTarget] })}</div>
           </div>
 
           <h3>Next Token Probabilities</h3>
           <div className="formula-block">
-            <div className="rnn-prob-list">
+            <div className="rnn-prob-list" aria-hidden="true">
               {NEXT_VOCAB.map((token, i) => (
                 <div key={token} className="rnn-prob-item">
                   <span>{token}</span>
@@ -303,57 +279,17 @@ export function LLMViz() {
                 </div>
               ))}
             </div>
-            <div className="llm-pred">True next word in this sentence: {groundTruth}</div>
-            <div className="llm-pred">Predicted next token: {NEXT_VOCAB[nextIdx]}</div>
+            <div className="llm-pred">{format(text.trueNextWord, { word: groundTruth })}</div>
+            <div className="llm-pred">{format(text.predictedNext, { word: NEXT_VOCAB[nextIdx] })}</div>
             <div className="llm-pred">
-              Match: {NEXT_VOCAB[nextIdx] === groundTruth ? "yes" : "no"}
-              {truthIdx < 0 ? " (true word is outside current candidate list)" : ""}
+              {format(text.match, { answer: NEXT_VOCAB[nextIdx] === groundTruth ? text.yes : text.no })}
+              {truthIdx < 0 ? ` ${text.outsideCandidates}` : ""}
             </div>
           </div>
         </div>
 
         <div className="controls">
-          <div className="preset-row">
-            <button className="ghost-btn" onClick={() => setPlaying((v) => !v)}>
-              {playing ? "Pause" : "Play"}
-            </button>
-            <button className="ghost-btn" onClick={() => setContextLen(4)}>
-              Reset
-            </button>
-            <button
-              className="ghost-btn"
-              onClick={() => {
-                setPlaying(false);
-                setContextLen((v) => Math.max(4, v - 1));
-              }}
-            >
-              Prev Token
-            </button>
-            <button
-              className="ghost-btn"
-              onClick={() => {
-                setPlaying(false);
-                setContextLen((v) => Math.min(TOKENS.length, v + 1));
-              }}
-            >
-              Next Token
-            </button>
-          </div>
-
-          <label>
-            Context length: {contextLen}
-            <input
-              type="range"
-              min={4}
-              max={TOKENS.length}
-              step={1}
-              value={contextLen}
-              onChange={(e) => {
-                setPlaying(false);
-                setContextLen(Number(e.target.value));
-              }}
-            />
-          </label>
+          <TransportControls transport={transport} label="Context length" speed={{ min: 250, max: 1500, step: 20 }} />
 
           <label>
             Attention cell size: {cellSize}px
@@ -370,10 +306,7 @@ export function LLMViz() {
             <input type="range" min={0.4} max={1.8} step={0.01} value={temperature} onChange={(e) => setTemperature(Number(e.target.value))} />
           </label>
 
-          <label>
-            Auto-play speed: {speed} ms
-            <input type="range" min={250} max={1500} step={20} value={speed} onChange={(e) => setSpeed(Number(e.target.value))} />
-          </label>
+          <SeedControl param={LLM_PARAMS.seed} label="Embedding seed" />
 
           <div className="formula-block">
             Query token role: {ROLES[queryIdx]}
@@ -384,6 +317,33 @@ export function LLMViz() {
           </div>
         </div>
       </div>
+
+      <DataTable
+        caption={text.rowsCaption}
+        summary={format(text.rowsSummary, { query: visibleTokens[queryIdx], target: visibleTokens[mTarget] })}
+        columns={["Query", ...visibleTokens]}
+        rows={merged.map((row, qi) => [
+          visibleTokens[qi],
+          ...row.map((v, k) => (k <= qi ? `${(v * 100).toFixed(1)}%` : "masked")),
+        ])}
+      />
+
+      <DataTable
+        caption={text.probsCaption}
+        summary={format(text.probsSummary, { predicted: NEXT_VOCAB[nextIdx], truth: groundTruth })}
+        columns={["Token", "Probability"]}
+        rows={NEXT_VOCAB.map((token, i) => [token, `${(probs[i] * 100).toFixed(1)}%`])}
+      />
+
+      <LiveRegion
+        message={format(text.status, {
+          count: n,
+          query: visibleTokens[queryIdx],
+          predicted: NEXT_VOCAB[nextIdx],
+          pct: (probs[nextIdx] * 100).toFixed(1),
+        })}
+        muted={transport.playing}
+      />
     </section>
   );
 }
@@ -0,0 +1,146 @@
+import { useEffect, useRef, useState } from "react";
+import { goToSlide } from "../lib/deck";
+import { downloadBlob } from "../lib/exportFrame";
+import { openHandout } from "../lib/handout";
+import {
+  type Lesson,
+  activeLesson,
+  captureStep,
+  draftLesson,
+  lessonDeck,
+  newLesson,
+  parseLesson,
+  serializeLesson,
+} from "../lib/lesson";
+import { getConcept } from "../lib/registry";
+import { getSearch } from "../lib/urlState";
+
+function fileName(lesson: Lesson) {
+  const stem = lesson.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${stem || "lesson"}.lesson.json`;
+}
+
+function isLessonFile(file: File) {
+  return file.name.endsWith(".json") || file.type === "application/json";
+}
+
+/**
+ * Authoring and playback of lesson files: capture the current view as a
+ * step, export the steps, and import a lesson (picker or drop anywhere on the
+ * page) to present it.
+ */
+export function LessonMenu() {
+  const lesson = activeLesson.use();
+  const draft = draftLesson.use();
+  const input = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
+
+  const importFile = async (file: File) => {
+    try {
+      const imported = parseLesson(await file.text());
+      activeLesson.set(imported);
+      setError(null);
+      goToSlide(lessonDeck(imported), 0);
+    } catch (err) {
+      setError(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const importRef = useRef(importFile);
+  importRef.current = importFile;
+
+  useEffect(() => {
+    const hasFiles = (event: DragEvent) => event.dataTransfer?.types.includes("Files") ?? false;
+    const onDragOver = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      setDragging(true);
+    };
+    const onDragLeave = (event: DragEvent) => {
+      if (event.relatedTarget === null) setDragging(false);
+    };
+    const onDrop = (event: DragEvent) => {
+      const file = event.dataTransfer?.files[0];
+      setDragging(false);
+      if (!file || !isLessonFile(file)) return;
+      event.preventDefault();
+      void importRef.current(file);
+    };
+    window.addEventListener("dragover", onDragOver);
+    window.addEventListener("dragleave", onDragLeave);
+    window.addEventListener("drop", onDrop);
+    return () => {
+      window.removeEventListener("dragover", onDragOver);
+      window.removeEventListener("dragleave", onDragLeave);
+      window.removeEventListener("drop", onDrop);
+    };
+  }, []);
+
+  const addStep = () => {
+    const step = captureStep(getSearch());
+    if (step) draftLesson.set(newLesson([...(draft?.steps ?? []), step], draft?.title));
+  };
+
+  // With nothing drafted, export just the current view as a one-step lesson.
+  const exportLesson = () => {
+    const step = captureStep(getSearch());
+    const out = draft ?? (step && newLesson([step], getConcept(step.concept)?.label));
+    if (out) downloadBlob(new Blob([serializeLesson(out)], { type: "application/json" }), fileName(out));
+  };
+
+  const draftCount = draft?.steps.length ?? 0;
+
+  return (
+    <div className={dragging ? "lesson-menu lesson-menu-drop" : "lesson-menu"} role="group" aria-label="Lesson">
+      <span className="export-label">Lesson</span>
+      <button className="ghost-btn" onClick={addStep} title="Capture this tab's current settings as the next step">
+        Add step{draftCount > 0 && ` (${draftCount})`}
+      </button>
+      <button className="ghost-btn" onClick={exportLesson}>
+        Export
+      </button>
+      {draftCount > 0 && (
+        <button className="ghost-btn" onClick={() => draftLesson.set(null)}>
+          Discard steps
+        </button>
+      )}
+      <button className="ghost-btn" onClick={() => input.current?.click()} title="Or drop a lesson file anywhere on the page">
+        Import…
+      </button>
+      <input
+        ref={input}
+        type="file"
+        accept=".json,application/json"
+        hidden
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) void importFile(file);
+        }}
+      />
+      {lesson && (
+        <>
+          <span className="lesson-title">
+            “{lesson.title}” · {lesson.steps.length} steps · Present plays it
+          </span>
+          <button className="ghost-btn" onClick={() => openHandout("deck")} title="Printable notes for every step">
+            Handout
+          </button>
+          <button className="ghost-btn" onClick={() => activeLesson.set(null)}>
+            Close lesson
+          </button>
+        </>
+      )}
+      {dragging && <span>Drop a lesson file to import it</span>}
+      {error && (
+        <span className="export-error" role="alert">
+          {error}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+/**
+ * Announces `message` to screen readers whenever it changes. While `muted`
+ * (e.g. during autoplay) nothing is read, so frames do not pile up.
+ */
+export function LiveRegion({ message, muted = false }: { message: string; muted?: boolean }) {
+  return (
+    <p className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+      {muted ? "" : message}
+    </p>
+  );
+}
@@ -0,0 +1,23 @@
+import { LOCALES, LOCALE_IDS, LOCALE_PARAMS, type LocaleId } from "../lib/i18n";
+import { useUrlParam } from "../lib/urlState";
+
+/** Language of the narrative text, page buttons and screen-reader text; view headings and controls stay in English. */
+export function LocalePicker() {
+  const [locale, setLocale] = useUrlParam(LOCALE_PARAMS.locale);
+
+  return (
+    <select
+      className="locale-picker"
+      aria-label="Language"
+      title="Translates explanations, scenes, tours, page buttons and screen-reader text; view headings and controls stay in English"
+      value={locale}
+      onChange={(e) => setLocale(e.target.value as LocaleId)}
+    >
+      {LOCALE_IDS.map((id) => (
+        <option key={id} value={id} lang={id}>
+          {LOCALES[id].label}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -1,61 +1,19 @@
 import { useEffect, useMemo, useState } from "react";
+import { PCA_PARAMS, type PresetKey, cachedPcaArtifact, loadPcaArtifact } from "../concepts/pca";
+import { format, useMessages } from "../lib/i18n";
+import { stepperFigure } from "../lib/keyboard";
+import { reshape } from "../lib/math";
+import { useReportMetrics } from "../lib/metrics";
+import { type Colormap, colormapGradient, useTheme } from "../lib/theme";
+import { useUrlParam } from "../lib/urlState";
+import { DataTable } from "./DataTable";
+import { ExportMenu } from "./ExportMenu";
+import { Heatmap } from "./Heatmap";
+import { LiveRegion } from "./LiveRegion";
 
 const SCATTER_W = 520;
 const SCATTER_H = 360;
 
-type PresetKey = "6" | "12" | "14" | "18" | "30";
-
-type PcaArtifact = {
-  meta: {
-    dim: number;
-    imageSide: number;
-    trainSize: number;
-    testSize: number;
-    presetComponents: number[];
-    knnNeighbors: number;
-  };
-  testLabels: number[];
-  meanVector: number[];
-  testVectors: number[][];
-  reconstructions: Record<PresetKey, number[][]>;
-  scatter: Array<{ x: number; y: number; label: number }>;
-  eigendigits: number[][];
-  pcStd: number[];
-  explained: Record<PresetKey, number>;
-  explainedCumulative: number[];
-  knnAccuracy: Record<PresetKey, number>;
-};
-
-let pcaDataCache: PcaArtifact | null = null;
-let pcaDataPromise: Promise<PcaArtifact> | null = null;
-
-function loadPcaArtifact() {
-  if (pcaDataCache) {
-    return Promise.resolve(pcaDataCache);
-  }
-  if (pcaDataPromise) {
-    return pcaDataPromise;
-  }
-
-  pcaDataPromise = fetch("/data/pca-presets.json")
-    .then((response) => {
-      if (!response.ok) {
-        throw new Error(`Failed to load PCA presets (${response.status})`);
-      }
-      return response.json() as Promise<PcaArtifact>;
-    })
-    .then((artifact) => {
-      pcaDataCache = artifact;
-      return artifact;
-    })
-    .catch((error) => {
-      pcaDataPromise = null;
-      throw error;
-    });
-
-  return pcaDataPromise;
-}
-
 const presets: Array<{ key: PresetKey; label: string }> = [
   { key: "6", label: "6 PCs" },
   { key: "12", label: "12 PCs" },
@@ -64,48 +22,16 @@ const presets: Array<{ key: PresetKey; label: string }> = [
   { key: "30", label: "All (30 PCs)" },
 ];
 
-const colorScale = [
-  "#66d9ef",
-  "#ffce7a",
-  "#9be07d",
-  "#ff8d8d",
-  "#bfa8ff",
-  "#ffd66b",
-  "#7ed5b4",
-  "#f4a0d7",
-  "#8ab4ff",
-  "#f8bf86",
-];
+const DIGIT_SIDE = 28;
 
-function renderImage(vec: number[], className: string) {
+function renderImage(vec: number[], map: Colormap, label: string) {
   return (
-    <div className="digit28-grid" aria-hidden="true">
-      {vec.map((v, i) => (
-        <div key={i} className={className} style={{ opacity: 0.05 + v * 0.95 }} />
-      ))}
-    </div>
+    <Heatmap matrix={reshape(vec, DIGIT_SIDE, DIGIT_SIDE)} colormap={map} range={1} gap={1} label={label} className="digit28-grid" />
   );
 }
 
-function renderEigen(comp: number[]) {
-  const maxAbs = Math.max(1e-9, ...comp.map((v) => Math.abs(v)));
-  return (
-    <div className="digit28-grid eigen-grid" aria-hidden="true">
-      {comp.map((v, i) => {
-        const strength = Math.min(1, Math.abs(v) / maxAbs);
-        const color = v >= 0 ? `rgba(255, 186, 118, ${0.2 + strength * 0.8})` : `rgba(118, 196, 255, ${0.2 + strength * 0.8})`;
-        return (
-          <div
-            key={i}
-            className="eigen-cell"
-            style={{
-              background: color,
-            }}
-          />
-        );
-      })}
-    </div>
-  );
+function renderEigen(comp: number[], map: Colormap) {
+  return <Heatmap matrix={reshape(comp, DIGIT_SIDE, DIGIT_SIDE)} colormap={map} gap={1} className="digit28-grid eigen-grid" />;
 }
 
 function clamp01(v: number) {
@@ -117,11 +43,14 @@ function addScaled(base: number[], direction: number[], scale: number) {
 }
 
 export function PCAViz() {
-  const [data, setData] = useState<PcaArtifact | null>(() => pcaDataCache);
+  const [data, setData] = useState(cachedPcaArtifact);
   const [loadError, setLoadError] = useState<string | null>(null);
-  const [preset, setPreset] = useState<PresetKey>("12");
-  const [sampleIndex, setSampleIndex] = useState(0);
-  const [selectedPc, setSelectedPc] = useState(0);
+  const [preset, setPreset] = useUrlParam(PCA_PARAMS.preset);
+  const [sampleIndex, setSampleIndex] = useUrlParam(PCA_PARAMS.sampleIndex);
+  const [selectedPc, setSelectedPc] = useUrlParam(PCA_PARAMS.selectedPc);
+  const { palette, sequentialMap, divergingMap } = useTheme();
+  const messages = useMessages();
+  const text = messages.pca;
 
   useEffect(() => {
     let active = true;
@@ -146,6 +75,16 @@ export function PCAViz() {
   const xVals = useMemo(() => (data ? data.scatter.map((p) => p.x) : []), [data]);
   const yVals = useMemo(() => (data ? data.scatter.map((p) => p.y) : []), [data]);
 
+  useReportMetrics(
+    data
+      ? [
+          { label: "Components", value: Number(preset), digits: 0 },
+          { label: "Explained variance", value: data.explained[preset] * 100, digits: 1, unit: "%" },
+          { label: "k-NN accuracy", value: data.knnAccuracy[preset] * 100, digits: 1, unit: "%" },
+        ]
+      : [],
+  );
+
   if (loadError) {
     return (
       <section>
@@ -179,20 +118,32 @@ export function PCAViz() {
   const sigma = data.pcStd[selectedPc] ?? 0.1;
   const plusImage = addScaled(data.meanVector, pc, sigma * 2.2);
   const minusImage = addScaled(data.meanVector, pc, -sigma * 2.2);
+  const explainedPct = (data.explained[preset] * 100).toFixed(1);
+  const samples = {
+    first: 0,
+    last: sampleCount - 1,
+    step: (delta: number) => setSampleIndex(Math.max(0, Math.min(sampleCount - 1, selectedIndex + delta))),
+    seek: setSampleIndex,
+  };
 
   return (
     <section>
       <h2>PCA on Handwritten Digits</h2>
-      <p className="subtext">
-        This view uses precomputed PCA presets so the demo stays fast: 784D images compressed to 6, 12, 14, 18, or 30 principal components.
-      </p>
+      <p className="subtext">{messages.intros.pca}</p>
+
+      <ExportMenu name="pca" />
 
-      <div className="digit-layout">
+      <div className="digit-layout" data-figure {...stepperFigure(text.figure, samples)}>
         <div>
-          <svg viewBox={`0 0 ${SCATTER_W} ${SCATTER_H}`} className="viz-canvas">
-            <rect width={SCATTER_W} height={SCATTER_H} fill="#0c1c27" />
-            <line x1={20} y1={SCATTER_H / 2} x2={SCATTER_W - 20} y2={SCATTER_H / 2} stroke="#36586b" />
-            <line x1={SCATTER_W / 2} y1={20} x2={SCATTER_W / 2} y2={SCATTER_H - 20} stroke="#36586b" />
+          <svg
+            viewBox={`0 0 ${SCATTER_W} ${SCATTER_H}`}
+            className="viz-canvas"
+            role="img"
+            aria-label={format(text.scatter, { count: data.scatter.length })}
+          >
+            <rect width={SCATTER_W} height={SCATTER_H} fill={palette.plotBg} />
+            <line x1={20} y1={SCATTER_H / 2} x2={SCATTER_W - 20} y2={SCATTER_H / 2} stroke={palette.plotGrid} />
+            <line x1={SCATTER_W / 2} y1={20} x2={SCATTER_W / 2} y2={SCATTER_H - 20} stroke={palette.plotGrid} />
 
             {data.scatter.map((p, idx) => {
               const x = 30 + ((p.x - xMin) / (xMax - xMin + 1e-9)) * (SCATTER_W - 60);
@@ -203,15 +154,15 @@ export function PCAViz() {
                   cx={x}
                   cy={SCATTER_H - y}
                   r={2.8}
-                  fill={colorScale[p.label]}
+                  fill={palette.series[p.label]}
                   opacity={0.78}
                 />
               );
             })}
           </svg>
 
-          <div className="digit-legend">
-            {colorScale.map((c, i) => (
+          <div className="digit-legend" aria-hidden="true">
+            {palette.series.map((c, i) => (
               <span key={i}>
                 <i style={{ background: c }} /> {i}
               </span>
@@ -220,17 +171,18 @@ export function PCAViz() {
 
           <div className="eigen-section">
             <h3>Top Eigendigits</h3>
-            <p className="eigen-help">Blue pixels pull intensity down, amber pixels push it up when moving along that principal component.</p>
+            <p className="eigen-help">{text.eigenHelp}</p>
             <div className="eigen-list">
               {data.eigendigits.slice(0, 12).map((comp, idx) => (
                 <button
                   key={idx}
                   className={idx === selectedPc ? "eigen-card eigen-card-active" : "eigen-card"}
+                  aria-pressed={idx === selectedPc}
                   onClick={() => setSelectedPc(idx)}
                   type="button"
                 >
                   <strong>PC{idx + 1}</strong>
-                  {renderEigen(comp)}
+                  {renderEigen(comp, divergingMap)}
                   <small>{(data.explainedCumulative[idx] * 100).toFixed(1)}% cumulative</small>
                 </button>
               ))}
@@ -239,21 +191,21 @@ export function PCAViz() {
             <div className="eigen-shift">
               <div>
                 <h4>Mean - 2.2 sigma * PC{selectedPc + 1}</h4>
-                {renderImage(minusImage, "digit-cell")}
+                {renderImage(minusImage, sequentialMap, format(text.meanMinus, { pc: selectedPc + 1 }))}
               </div>
               <div>
                 <h4>Dataset Mean</h4>
-                {renderImage(data.meanVector, "digit-cell")}
+                {renderImage(data.meanVector, sequentialMap, text.mean)}
               </div>
               <div>
                 <h4>Mean + 2.2 sigma * PC{selectedPc + 1}</h4>
-                {renderImage(plusImage, "digit-cell")}
+                {renderImage(plusImage, sequentialMap, format(text.meanPlus, { pc: selectedPc + 1 }))}
               </div>
             </div>
 
             <div className="eigen-polarity">
               <span>- direction</span>
-              <div className="eigen-polarity-bar" aria-hidden="true" />
+              <div className="eigen-polarity-bar" aria-hidden="true" style={{ background: colormapGradient(divergingMap) }} />
               <span>+ direction</span>
             </div>
           </div>
@@ -263,11 +215,11 @@ export function PCAViz() {
           <div className="digit-compare">
             <div>
               <h3>Original</h3>
-              {renderImage(original, "digit-cell")}
+              {renderImage(original, sequentialMap, format(text.original, { digit: label }))}
             </div>
             <div>
               <h3>Reconstruction</h3>
-              {renderImage(reconstructed, "digit-cell recon")}
+              {renderImage(reconstructed, sequentialMap, format(text.reconstruction, { k: preset }))}
             </div>
           </div>
 
@@ -276,6 +228,7 @@ export function PCAViz() {
               <button
                 key={item.key}
                 className={item.key === preset ? "tab tab-active" : "tab"}
+                aria-pressed={item.key === preset}
                 onClick={() => setPreset(item.key)}
               >
                 {item.label}
@@ -300,12 +253,31 @@ export function PCAViz() {
             <br />
             Compression: {data.meta.dim} to {preset} ({((Number(preset) / data.meta.dim) * 100).toFixed(2)}%)
             <br />
-            Explained variance: {(data.explained[preset] * 100).toFixed(1)}%
+            Explained variance: {explainedPct}%
             <br />
             k-NN ({data.meta.knnNeighbors}) accuracy in PCA space: {(data.knnAccuracy[preset] * 100).toFixed(1)}%
           </div>
         </div>
       </div>
+
+      <DataTable
+        caption={text.presetsCaption}
+        summary={format(text.presetsSummary, { k: preset, dim: data.meta.dim, pct: explainedPct })}
+        columns={["Components", "Explained variance", `k-NN (${data.meta.knnNeighbors}) accuracy`]}
+        rows={presets.map((item) => [
+          item.key,
+          `${(data.explained[item.key] * 100).toFixed(1)}%`,
+          `${(data.knnAccuracy[item.key] * 100).toFixed(1)}%`,
+        ])}
+      />
+
+      <DataTable
+        caption={text.scatterCaption}
+        columns={["Test sample", "PC1", "PC2", "Digit"]}
+        rows={data.scatter.map((p, idx) => [idx, p.x.toFixed(3), p.y.toFixed(3), p.label])}
+      />
+
+      <LiveRegion message={format(text.status, { index: selectedIndex, digit: label, k: preset, pct: explainedPct })} />
     </section>
   );
 }
@@ -0,0 +1,128 @@
+import { type ReactNode, useEffect, useState } from "react";
+import { setDrawing, useDrawing } from "../lib/annotations";
+import { type Slide, goToSlide, readSlideIndex, stopPresentation } from "../lib/deck";
+import { conceptNotes, useMessages } from "../lib/i18n";
+import { openAudienceWindow } from "../lib/presenterSync";
+import { getConcept } from "../lib/registry";
+import { useSearch } from "../lib/urlState";
+import { LiveRegion } from "./LiveRegion";
+import { LocalePicker } from "./LocalePicker";
+import { ThemePicker } from "./ThemePicker";
+import { HoldAnimationsButton } from "./TransportControls";
+
+const NEXT_KEYS = new Set(["ArrowRight", "ArrowDown", "PageDown", " "]);
+const PREV_KEYS = new Set(["ArrowLeft", "ArrowUp", "PageUp"]);
+
+// Sliders and text fields own their arrow keys; the deck only listens when
+// focus is elsewhere. Clickers send PageUp/PageDown, which inputs ignore.
+function ownsKey(target: EventTarget | null, key: string) {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  const tag = target.tagName;
+  if (tag === "TEXTAREA" || tag === "SELECT") return true;
+  if (tag === "INPUT") return key !== "PageUp" && key !== "PageDown";
+  return tag === "BUTTON" && key === " ";
+}
+
+export function PresentationMode({ deck, children }: { deck: Slide[]; children: ReactNode }) {
+  const search = useSearch();
+  const index = readSlideIndex(search, deck.length);
+  const slide = deck[index];
+  const concept = getConcept(slide.concept);
+  const messages = useMessages();
+  const notes = concept && conceptNotes(concept, messages);
+  const [showNotes, setShowNotes] = useState(true);
+  const drawing = useDrawing();
+
+  useEffect(() => () => setDrawing(false), []);
+
+  // Re-entering the current slide would discard live tweaks, so only move.
+  const go = (target: number) => {
+    if (target !== index && target >= 0 && target < deck.length) {
+      goToSlide(deck, target);
+    }
+  };
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.altKey || event.ctrlKey || event.metaKey || event.defaultPrevented) return;
+      if (ownsKey(event.target, event.key)) return;
+
+      if (NEXT_KEYS.has(event.key)) {
+        go(index + 1);
+      } else if (PREV_KEYS.has(event.key)) {
+        go(index - 1);
+      } else if (event.key === "Home") {
+        go(0);
+      } else if (event.key === "End") {
+        go(deck.length - 1);
+      } else if (event.key === "s" || event.key === "S") {
+        setShowNotes((v) => !v);
+      } else if (event.key === "d" || event.key === "D") {
+        setDrawing(!drawing);
+      } else if (event.key === "Escape") {
+        stopPresentation();
+      } else {
+        return;
+      }
+      event.preventDefault();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [deck, index, drawing]);
+
+  return (
+    <div className={showNotes ? "deck deck-with-notes" : "deck"}>
+      <div className="deck-bar">
+        <span className="deck-title">{slide.title}</span>
+        <span className="deck-counter">
+          {index + 1} / {deck.length}
+        </span>
+        <button className="ghost-btn" onClick={() => go(index - 1)} disabled={index === 0}>
+          Prev
+        </button>
+        <button className="ghost-btn" onClick={() => go(index + 1)} disabled={index === deck.length - 1}>
+          Next
+        </button>
+        <button className="ghost-btn" onClick={() => setShowNotes((v) => !v)}>
+          {showNotes ? "Hide notes" : "Show notes"}
+        </button>
+        <button className="ghost-btn" aria-pressed={drawing} onClick={() => setDrawing(!drawing)}>
+          Annotate
+        </button>
+        <HoldAnimationsButton className="ghost-btn" />
+        <ThemePicker />
+        <LocalePicker />
+        <button className="ghost-btn" onClick={openAudienceWindow}>
+          Audience window
+        </button>
+        <button className="ghost-btn" onClick={stopPresentation}>
+          Exit
+        </button>
+      </div>
+
+      <div className="deck-stage">{children}</div>
+
+      <LiveRegion message={`Slide ${index + 1} of ${deck.length}: ${slide.title}`} />
+
+      {showNotes && (
+        <aside className="speaker-notes" aria-label="Speaker notes">
+          <strong>Speaker notes · {concept?.label ?? slide.concept}</strong>
+          {slide.notes?.map((note) => (
+            <p key={note}>{note}</p>
+          ))}
+          {notes && (
+            <>
+              <em>{notes.heading}</em>
+              {notes.points.map((point) => (
+                <span key={point}>{point}</span>
+              ))}
+            </>
+          )}
+          {!slide.notes && !notes && <span>No notes for this slide.</span>}
+          <small>← / → or clicker to move · S toggles notes · D draws on the slide · Esc exits · focus a figure to step it with the arrows</small>
+        </aside>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,15 @@
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useMemo } from "react";
+import { ACT_IDS, type ActId, RELU_PARAMS, RELU_SWEEP_FRAMES } from "../concepts/relu";
+import { format, useMessages } from "../lib/i18n";
+import { stepperFigure } from "../lib/keyboard";
+import { useReportMetrics } from "../lib/metrics";
+import { type PlaybackParams, usePlayback } from "../lib/playback";
+import { useTheme } from "../lib/theme";
+import { useUrlParam } from "../lib/urlState";
+import { DataTable } from "./DataTable";
+import { ExportMenu } from "./ExportMenu";
+import { LiveRegion } from "./LiveRegion";
+import { TransportControls } from "./TransportControls";
 
 // ─── SVG canvas geometry ───────────────────────────────────────────────────
 const SVG_W = 600;
@@ -39,101 +50,97 @@ function makePath(fn: (x: number) => number | null, n = 500): string {
 }
 
 // ─── Activation function definitions ──────────────────────────────────────
-type ActId = "relu" | "leaky" | "elu" | "sigmoid";
-
+// Their written-out formulas are in the message catalogs (src/locales/).
 interface ActDef {
   name: string;
-  color: string;
+  /** Index into the theme's categorical series. */
+  series: number;
   /** Forward pass */
   fn(x: number, alpha: number): number;
   /** Derivative — returns null where undefined (kink) */
   d(x: number, alpha: number): number | null;
-  formula: string;
-  dFormula: string;
 }
 
 const ACTS: Record<ActId, ActDef> = {
   relu: {
     name: "ReLU",
-    color: "#4fd0ff",
+    series: 0,
     fn: (x) => Math.max(0, x),
     d: (x) => (x > 0 ? 1 : x < 0 ? 0 : null),
-    formula: "f(x) = max(0, x)",
-    dFormula: "f ′(x) = 0  (x < 0)   1  (x > 0)",
   },
   leaky: {
     name: "Leaky ReLU",
-    color: "#ffbd4a",
+    series: 1,
     fn: (x, α) => (x >= 0 ? x : α * x),
     d: (_x, α) => (_x >= 0 ? 1 : α),
-    formula: "f(x) = x ≥ 0 ? x : α·x",
-    dFormula: "f ′(x) = 1  (x ≥ 0)   α  (x < 0)",
   },
   elu: {
     name: "ELU",
-    color: "#b991ff",
+    series: 4,
     fn: (x, α) => (x >= 0 ? x : α * (Math.exp(x) - 1)),
     d: (x, α) => (x >= 0 ? 1 : α * Math.exp(x)),
-    formula: "f(x) = x ≥ 0 ? x : α(eˣ − 1)",
-    dFormula: "f ′(x) = 1  (x ≥ 0)   α·eˣ  (x < 0)",
   },
   sigmoid: {
     name: "Sigmoid",
-    color: "#7de6a9",
+    series: 6,
     fn: (x) => 1 / (1 + Math.exp(-x)),
     d: (x) => {
       const s = 1 / (1 + Math.exp(-x));
       return s * (1 - s);
     },
-    formula: "σ(x) = 1 / (1 + e⁻ˣ)",
-    dFormula: "σ′(x) = σ(x) · (1 − σ(x))",
   },
 };
 
-const ACT_IDS: ActId[] = ["relu", "leaky", "elu", "sigmoid"];
-
 // Pre-activation values for the "neuron activity" bar chart.
 // Spread from clearly negative to clearly positive.
 const NEURON_PREACTS = [-2.4, -1.6, -0.9, -0.2, 0.4, 1.1, 1.8, 2.5];
 
+// Inputs tabulated in the data view.
+const TABLE_XS = Array.from({ length: 13 }, (_, i) => -3 + i * 0.5);
+
+const PLAYBACK: PlaybackParams = {
+  frame: RELU_PARAMS.phase,
+  playing: RELU_PARAMS.isPlaying,
+  speed: RELU_PARAMS.speed,
+  loop: RELU_PARAMS.loop,
+};
+
+// The input sweeps -3 → 3 → -3 along a cosine, so it lingers near the ends.
+function sweepX(phase: number) {
+  return -3 * Math.cos((2 * Math.PI * phase) / RELU_SWEEP_FRAMES);
+}
+
 // ─── Component ─────────────────────────────────────────────────────────────
 export function ReLUViz() {
-  const [active, setActive] = useState<Set<ActId>>(new Set(["relu", "leaky"]));
-  const [alpha, setAlpha] = useState(0.1);
-  const [inputX, setInputX] = useState(-3.0);
-  const [isPlaying, setIsPlaying] = useState(true);
-  const [showDeriv, setShowDeriv] = useState(true);
-  const [showDeadZone, setShowDeadZone] = useState(true);
-  const [bias, setBias] = useState(0.0);
-  const phaseRef = useRef((-Math.PI / 2)); // sin phase → x starts at -3
-
-  // Continuous x sweep using requestAnimationFrame so the motion is smooth
-  // and frame-rate independent. One full oscillation takes ~6 seconds.
-  useEffect(() => {
-    if (!isPlaying) return;
-    let rafId: number;
-    let prevTs = 0;
-    const tick = (ts: number) => {
-      const dt = prevTs ? ts - prevTs : 0;
-      prevTs = ts;
-      phaseRef.current += dt * 0.00105; // ~6 s period
-      setInputX(parseFloat((3 * Math.sin(phaseRef.current)).toFixed(3)));
-      rafId = requestAnimationFrame(tick);
-    };
-    rafId = requestAnimationFrame(tick);
-    return () => cancelAnimationFrame(rafId);
-  }, [isPlaying]);
+  const [activeIds, setActiveIds] = useUrlParam(RELU_PARAMS.active);
+  const [alpha, setAlpha] = useUrlParam(RELU_PARAMS.alpha);
+  const [showDeriv, setShowDeriv] = useUrlParam(RELU_PARAMS.showDeriv);
+  const [showDeadZone, setShowDeadZone] = useUrlParam(RELU_PARAMS.showDeadZone);
+  const [bias, setBias] = useUrlParam(RELU_PARAMS.bias);
+  const { palette } = useTheme();
+  const messages = useMessages();
+  const { formulas, gradients, ...text } = messages.relu;
+  const colorOf = (id: ActId) => palette.series[ACTS[id].series];
+  // An empty or malformed list from a hand-edited link still shows one curve.
+  const active = useMemo(
+    () => new Set<ActId>(activeIds.length > 0 ? activeIds : RELU_PARAMS.active.defaultValue),
+    [activeIds],
+  );
+
+  // At the default 50 ms per frame one full oscillation takes 6 seconds.
+  const transport = usePlayback(PLAYBACK, 0, RELU_SWEEP_FRAMES - 1);
+  const inputX = sweepX(transport.frame);
 
   function toggleAct(id: ActId) {
-    setActive((prev) => {
+    setActiveIds((prev) => {
       const next = new Set(prev);
       if (next.has(id)) {
-        if (next.size === 1) return next; // always keep ≥ 1
+        if (next.size === 1) return prev; // always keep ≥ 1
         next.delete(id);
       } else {
         next.add(id);
       }
-      return next;
+      return ACT_IDS.filter((act) => next.has(act));
     });
   }
 
@@ -167,6 +174,15 @@ export function ReLUViz() {
 
   // Neuron outputs: ReLU applied to (preact + bias)
   const neuronOuts = NEURON_PREACTS.map((p) => Math.max(0, p + bias));
+  const aliveCount = neuronOuts.filter((o) => o > 1e-4).length;
+  const shownIds = ACT_IDS.filter((id) => active.has(id));
+  const readout = shownIds.map((id) => `${ACTS[id].name} ${curVals[id]?.y.toFixed(3)}`).join(", ");
+
+  useReportMetrics([
+    { label: "Alive neurons", value: `${aliveCount} of ${neuronOuts.length}` },
+    { label: "Input x", value: inputX, digits: 2 },
+    ...shownIds.map((id) => ({ label: `${ACTS[id].name} output`, value: curVals[id]?.y ?? 0 })),
+  ]);
 
   // Axis and zone geometry
   const ax0 = px(0);
@@ -182,16 +198,19 @@ export function ReLUViz() {
   return (
     <section>
       <h2>Activation Functions (ReLU &amp; Variants)</h2>
-      <p className="subtext">
-        ReLU is the default activation in modern deep learning. Its kink at
-        zero is non-differentiable, and the flat left half (gradient = 0) is
-        the root cause of the "dying neuron" problem.
-      </p>
+      <p className="subtext">{messages.intros.relu}</p>
+
+      <ExportMenu name="activations" transport={transport} />
 
       <div className="viz-layout">
         {/* ─── Main plot ─────────────────────────────────────────────── */}
-        <svg viewBox={`0 0 ${SVG_W} ${SVG_H}`} className="viz-canvas">
-          <rect width={SVG_W} height={SVG_H} fill="#0b1720" />
+        <svg
+          viewBox={`0 0 ${SVG_W} ${SVG_H}`}
+          className="viz-canvas"
+          data-figure
+          {...stepperFigure(format(text.figure, { x: inputX.toFixed(2) }), transport)}
+        >
+          <rect width={SVG_W} height={SVG_H} fill={palette.plotBg} />
 
           {/* Dead zone shading */}
           {showDeadZone && (
@@ -201,14 +220,16 @@ export function ReLUViz() {
                 y={PT}
                 width={deadW}
                 height={PB - PT}
-                fill="rgba(220,60,60,0.08)"
+                fill={palette.negative}
+                fillOpacity={0.08}
               />
               <text
                 x={deadX + deadW / 2}
                 y={PT + 14}
                 textAnchor="middle"
                 fontSize="10"
-                fill="rgba(255,110,110,0.65)"
+                fill={palette.negative}
+                fillOpacity={0.65}
               >
                 dead zone (gradient = 0 for ReLU)
               </text>
@@ -221,7 +242,7 @@ export function ReLUViz() {
               key={`gx${t}`}
               x1={px(t)} y1={PT}
               x2={px(t)} y2={PB}
-              stroke="#162e3d" strokeWidth="1"
+              stroke={palette.plotGrid} strokeWidth="1"
             />
           ))}
           {yTicks.map((t) => (
@@ -229,36 +250,36 @@ export function ReLUViz() {
               key={`gy${t}`}
               x1={PL} y1={py(t)}
               x2={PR} y2={py(t)}
-              stroke="#162e3d" strokeWidth="1"
+              stroke={palette.plotGrid} strokeWidth="1"
             />
           ))}
 
           {/* Axes */}
-          <line x1={PL} y1={ay0} x2={PR} y2={ay0} stroke="#3d6e87" strokeWidth="1.5" />
-          <line x1={ax0} y1={PT} x2={ax0} y2={PB} stroke="#3d6e87" strokeWidth="1.5" />
+          <line x1={PL} y1={ay0} x2={PR} y2={ay0} stroke={palette.plotAxis} strokeWidth="1.5" />
+          <line x1={ax0} y1={PT} x2={ax0} y2={PB} stroke={palette.plotAxis} strokeWidth="1.5" />
 
           {/* Tick labels */}
           {xTicks.map((t) => (
             <text key={`lx${t}`} x={px(t)} y={PB + 16}
-              textAnchor="middle" fontSize="11" fill="#5a8ea8">
+              textAnchor="middle" fontSize="11" fill={palette.plotLabel}>
               {t}
             </text>
           ))}
           {yTicks.filter((t) => t !== 0).map((t) => (
             <text key={`ly${t}`} x={PL - 6} y={py(t) + 4}
-              textAnchor="end" fontSize="11" fill="#5a8ea8">
+              textAnchor="end" fontSize="11" fill={palette.plotLabel}>
               {t}
             </text>
           ))}
-          <text x={PL - 6} y={ay0 + 4} textAnchor="end" fontSize="11" fill="#5a8ea8">0</text>
-          <text x={PR - 4} y={ay0 - 6} textAnchor="end" fontSize="12" fill="#5a8ea8">x</text>
-          <text x={ax0 + 6} y={PT + 12} fontSize="12" fill="#5a8ea8">y</text>
+          <text x={PL - 6} y={ay0 + 4} textAnchor="end" fontSize="11" fill={palette.plotLabel}>0</text>
+          <text x={PR - 4} y={ay0 - 6} textAnchor="end" fontSize="12" fill={palette.plotLabel}>x</text>
+          <text x={ax0 + 6} y={PT + 12} fontSize="12" fill={palette.plotLabel}>y</text>
 
           {/* Activation curves + optional derivative (dashed) */}
           {ACT_IDS.map((id) => {
             const p = paths[id];
             if (!p) return null;
-            const { color } = ACTS[id];
+            const color = colorOf(id);
             return (
               <g key={id}>
                 <path
@@ -287,7 +308,7 @@ export function ReLUViz() {
           <line
             x1={curPX} y1={PT}
             x2={curPX} y2={PB}
-            stroke="#eaf7ff" strokeWidth="1"
+            stroke={palette.text} strokeWidth="1"
             strokeDasharray="4 3" opacity="0.45"
           />
 
@@ -303,8 +324,8 @@ export function ReLUViz() {
                 cx={curPX}
                 cy={py(y)}
                 r={5.2}
-                fill={ACTS[id].color}
-                stroke="#0b1720"
+                fill={colorOf(id)}
+                stroke={palette.plotBg}
                 strokeWidth="1.5"
               />
             );
@@ -324,7 +345,7 @@ export function ReLUViz() {
                   cy={py(dy)}
                   r={3.5}
                   fill="none"
-                  stroke={ACTS[id].color}
+                  stroke={colorOf(id)}
                   strokeWidth="1.5"
                   opacity="0.6"
                 />
@@ -336,7 +357,7 @@ export function ReLUViz() {
             x={curPX + 5}
             y={PB + 14}
             fontSize="10"
-            fill="#eaf7ff"
+            fill={palette.text}
             opacity="0.7"
           >
             {inputX.toFixed(2)}
@@ -346,41 +367,31 @@ export function ReLUViz() {
         {/* ─── Controls ──────────────────────────────────────────────── */}
         <div className="controls">
           {/* Playback */}
-          <div className="preset-row">
-            <button
-              className="ghost-btn"
-              onClick={() => setIsPlaying((v) => !v)}
-            >
-              {isPlaying ? "Pause" : "Play"}
-            </button>
-            <button
-              className="ghost-btn"
-              onClick={() => {
-                setIsPlaying(false);
-                phaseRef.current = -Math.PI / 2;
-                setInputX(-3);
-              }}
-            >
-              Reset
-            </button>
-          </div>
+          <TransportControls
+            transport={transport}
+            label="Input x"
+            value={inputX.toFixed(3)}
+            speed={{ min: 20, max: 120, step: 5 }}
+          />
 
           {/* Activation toggles */}
           <div className="formula-block" style={{ display: "grid", gap: "0.4rem" }}>
-            <div style={{ color: "#b4d3e5", fontSize: "0.8rem" }}>
+            <div style={{ color: palette.muted, fontSize: "0.8rem" }}>
               Activations:
             </div>
             {ACT_IDS.map((id) => {
               const on = active.has(id);
-              const { color, name } = ACTS[id];
+              const { name } = ACTS[id];
+              const color = colorOf(id);
               return (
                 <button
                   key={id}
                   className="ghost-btn"
+                  aria-pressed={on}
                   onClick={() => toggleAct(id)}
                   style={{
-                    borderColor: on ? color : "#2a4958",
-                    color: on ? color : "#4a7a95",
+                    borderColor: on ? color : palette.line,
+                    color: on ? color : palette.plotLabel,
                     textAlign: "left",
                     fontSize: "0.82rem",
                     padding: "0.38rem 0.65rem",
@@ -392,22 +403,6 @@ export function ReLUViz() {
             })}
           </div>
 
-          {/* Input x slider */}
-          <label>
-            Input x: {inputX.toFixed(3)}
-            <input
-              type="range"
-              min={-3.5}
-              max={3.5}
-              step={0.001}
-              value={inputX}
-              onChange={(e) => {
-                setIsPlaying(false);
-                setInputX(Number(e.target.value));
-              }}
-            />
-          </label>
-
           {/* Options */}
           <div style={{ display: "grid", gap: "0.3rem" }}>
             <label
@@ -467,10 +462,10 @@ export function ReLUViz() {
               if (!val) return null;
               return (
                 <div key={id}>
-                  <span style={{ color: ACTS[id].color }}>{ACTS[id].name}</span>
+                  <span style={{ color: colorOf(id) }}>{ACTS[id].name}</span>
                   {" → "}{val.y.toFixed(4)}
                   {showDeriv && (
-                    <span style={{ color: "#7aa0b5" }}>
+                    <span style={{ color: palette.muted }}>
                       {val.dy === null
                         ? "  ∂ = undef"
                         : `  ∂ = ${val.dy.toFixed(4)}`}
@@ -483,10 +478,12 @@ export function ReLUViz() {
 
           {/* Neuron activity bar chart */}
           <div className="formula-block loss-chart-block">
-            <div style={{ fontSize: "0.8rem", color: "#b4d3e5" }}>
+            <div style={{ fontSize: "0.8rem", color: palette.muted }}>
               Neuron activity (ReLU) — shift bias: {bias.toFixed(1)}
             </div>
             <div
+              role="img"
+              aria-label={format(text.neurons, { alive: aliveCount, count: NEURON_PREACTS.length })}
               style={{
                 display: "flex",
                 gap: "3px",
@@ -515,14 +512,14 @@ export function ReLUViz() {
                         width: "100%",
                         height: `${barH}px`,
                         borderRadius: "2px 2px 0 0",
-                        background: alive ? "#4fd0ff" : "#1b3a4d",
+                        background: alive ? colorOf("relu") : palette.inactive,
                         transition: "height 0.12s, background 0.18s",
                       }}
                     />
                     <div
                       style={{
                         fontSize: "7px",
-                        color: alive ? "#4fd0ff" : "#2a5a6e",
+                        color: alive ? colorOf("relu") : palette.plotLabel,
                         lineHeight: 1,
                       }}
                     >
@@ -541,9 +538,9 @@ export function ReLUViz() {
               onChange={(e) => setBias(Number(e.target.value))}
               style={{ marginTop: "6px" }}
             />
-            <div style={{ fontSize: "0.72rem", color: "#5a8ea8", marginTop: "2px" }}>
-              {neuronOuts.filter((o) => o > 1e-4).length}/{NEURON_PREACTS.length} neurons active
-              {neuronOuts.filter((o) => o > 1e-4).length < NEURON_PREACTS.length / 2 &&
+            <div style={{ fontSize: "0.72rem", color: palette.plotLabel, marginTop: "2px" }}>
+              {aliveCount}/{NEURON_PREACTS.length} neurons active
+              {aliveCount < NEURON_PREACTS.length / 2 &&
                 " — dying ReLU!"}
             </div>
           </div>
@@ -555,18 +552,18 @@ export function ReLUViz() {
           >
             {ACT_IDS.filter((id) => active.has(id)).map((id) => (
               <div key={id}>
-                <span style={{ color: ACTS[id].color }}>{ACTS[id].name}:</span>{" "}
-                {ACTS[id].formula}
+                <span style={{ color: colorOf(id) }}>{ACTS[id].name}:</span>{" "}
+                {formulas[id].formula}
               </div>
             ))}
             {showDeriv && (
               <>
-                <div style={{ marginTop: "0.4rem", color: "#7aa0b5" }}>
-                  Gradients:
+                <div style={{ marginTop: "0.4rem", color: palette.muted }}>
+                  {gradients}
                 </div>
                 {ACT_IDS.filter((id) => active.has(id)).map((id) => (
-                  <div key={`d-${id}`} style={{ color: "#5a8ea8" }}>
-                    {ACTS[id].dFormula}
+                  <div key={`d-${id}`} style={{ color: palette.plotLabel }}>
+                    {formulas[id].dFormula}
                   </div>
                 ))}
               </>
@@ -574,6 +571,15 @@ export function ReLUViz() {
           </div>
         </div>
       </div>
+
+      <DataTable
+        caption={text.valuesCaption}
+        summary={format(text.valuesSummary, { x: inputX.toFixed(2), values: readout })}
+        columns={["x", ...shownIds.map((id) => ACTS[id].name)]}
+        rows={TABLE_XS.map((x) => [x.toFixed(1), ...shownIds.map((id) => ACTS[id].fn(x, alpha).toFixed(3))])}
+      />
+
+      <LiveRegion message={format(text.status, { x: inputX.toFixed(2), values: readout })} muted={transport.playing} />
     </section>
   );
 }
@@ -1,12 +1,34 @@
-import { useEffect, useMemo, useState } from "react";
-import { SVD } from "svd-js";
+import { useMemo, useSyncExternalStore } from "react";
+import { SVD_MAX_SIZE, SVD_PARAMS, SVD_SIZE } from "../concepts/svd";
+import { useComputation } from "../lib/compute";
+import { format, useMessages } from "../lib/i18n";
+import { readGrayscaleImage, resampleSquare } from "../lib/image";
+import { stepperFigure } from "../lib/keyboard";
+import { EPSILON, type Matrix, at, fromRows, leadingShare, map, maxValue, standardDeviation, sumOfOuterProducts } from "../lib/math";
+import { useReportMetrics } from "../lib/metrics";
+import { type PlaybackParams, usePlayback } from "../lib/playback";
+import { useTourCondition } from "../lib/tour";
+import { useTheme } from "../lib/theme";
+import { useUrlParam } from "../lib/urlState";
+import { DataTable } from "./DataTable";
+import { ExplainCard } from "./ExplainCard";
+import { ExportMenu } from "./ExportMenu";
+import { Heatmap } from "./Heatmap";
+import { ImageDrop } from "./ImageDrop";
+import { LiveRegion } from "./LiveRegion";
+import { TransportControls } from "./TransportControls";
 
-const N = 14;
+const N = SVD_SIZE;
 
-type Matrix = number[][];
+const PLAYBACK: PlaybackParams = {
+  frame: SVD_PARAMS.k,
+  playing: SVD_PARAMS.playing,
+  speed: SVD_PARAMS.speed,
+  loop: SVD_PARAMS.loop,
+};
 
 function buildFaceMatrix() {
-  const m = Array.from({ length: N }, () => Array.from({ length: N }, () => 0));
+  const m: number[][] = Array.from({ length: N }, () => Array.from({ length: N }, () => 0));
 
   for (let y = 2; y < N - 2; y += 1) {
     for (let x = 2; x < N - 2; x += 1) {
@@ -29,196 +51,179 @@ function buildFaceMatrix() {
     m[11][i] = Math.max(m[11][i], 0.74);
   }
 
-  return m;
+  return fromRows(m);
 }
 
-function reconstruct(u: number[][], s: number[], v: number[][], k: number) {
-  const out = Array.from({ length: N }, () => Array.from({ length: N }, () => 0));
-  const use = Math.min(k, s.length);
-  for (let y = 0; y < N; y += 1) {
-    for (let x = 0; x < N; x += 1) {
-      let sum = 0;
-      for (let i = 0; i < use; i += 1) {
-        sum += s[i] * u[y][i] * v[x][i];
-      }
-      out[y][x] = Math.max(0, Math.min(1, sum));
-    }
-  }
-  return out;
+const FACE = buildFaceMatrix();
+
+type Picture = { name: string; pixels: Matrix };
+
+// An uploaded picture is far too big for the URL, so it stays in memory for
+// this page. Links, lessons and static renders always show the face.
+let picture: Picture | null = null;
+const pictureListeners = new Set<() => void>();
+
+function setPicture(next: Picture | null) {
+  picture = next;
+  pictureListeners.forEach((listener) => listener());
+}
+
+function subscribePicture(listener: () => void) {
+  pictureListeners.add(listener);
+  return () => {
+    pictureListeners.delete(listener);
+  };
+}
+
+async function loadPicture(blob: Blob) {
+  const pixels = await readGrayscaleImage(blob);
+  setPicture({ name: blob instanceof File && blob.name ? blob.name : "pasted image", pixels });
+}
+
+function reconstruct(u: Matrix, s: number[], v: Matrix, k: number) {
+  return map(sumOfOuterProducts(u, s, v, 0, k), (value) => Math.max(0, Math.min(1, value)));
 }
 
 function residual(a: Matrix, b: Matrix) {
-  return a.map((row, y) => row.map((v, x) => Math.abs(v - b[y][x])));
+  return map(a, (value, y, x) => Math.abs(value - at(b, y, x)));
 }
 
 function cumulativeEnergy(s: number[], k: number) {
-  const total = s.reduce((acc, v) => acc + v * v, 0);
-  const partial = s.slice(0, k).reduce((acc, v) => acc + v * v, 0);
-  return total <= 1e-9 ? 0 : partial / total;
+  return leadingShare(s.map((v) => v * v), k);
 }
 
-function componentMap(u: number[][], s: number[], v: number[][], idx: number) {
-  const i = Math.max(0, Math.min(idx, s.length - 1));
-  const m = Array.from({ length: N }, () => Array.from({ length: N }, () => 0));
-  for (let y = 0; y < N; y += 1) {
-    for (let x = 0; x < N; x += 1) {
-      m[y][x] = s[i] * u[y][i] * v[x][i];
-    }
+type Decomposition = {
+  image: Matrix;
+  u: Matrix;
+  s: number[];
+  v: Matrix;
+  picture: Picture | null;
+  /** A newer size or picture is still being decomposed. */
+  pending: boolean;
+};
+
+export function SVDViz() {
+  const [size] = useUrlParam(SVD_PARAMS.size);
+  const current = useSyncExternalStore(subscribePicture, () => picture, () => null);
+  const image = useMemo(() => resampleSquare(current?.pixels ?? FACE, size), [current, size]);
+  const decomposition = useComputation("svd", image);
+
+  // A single flat shade has one trivial component, and the iteration can
+  // break down on it, so there is nothing worth showing.
+  const flat = standardDeviation(image.data) <= EPSILON;
+  const problem = flat
+    ? "This picture is a single flat shade, so there is nothing to decompose. Try another image or size."
+    : decomposition.error && `Could not decompose the matrix: ${decomposition.error}`;
+
+  if (problem || !decomposition.value || !decomposition.input) {
+    return (
+      <section>
+        <h2>SVD Insight Visualizer</h2>
+        <p className="subtext" role={problem ? "alert" : undefined}>
+          {problem || "Decomposing the matrix..."}
+        </p>
+        <div className="controls">
+          <SVDInputs picture={current} pending={decomposition.pending} />
+        </div>
+      </section>
+    );
   }
-  return m;
-}
 
-function matrixMax(m: Matrix) {
-  return Math.max(1e-6, ...m.flat());
+  return <SVDExplorer image={decomposition.input} {...decomposition.value} picture={current} pending={decomposition.pending} />;
 }
 
-function matrixAbsMax(m: Matrix) {
-  return Math.max(1e-6, ...m.flat().map((v) => Math.abs(v)));
+/** The size slider and the picture controls, kept on screen even when decomposing fails. */
+function SVDInputs({ picture, pending }: { picture: Picture | null; pending: boolean }) {
+  const [size, setSize] = useUrlParam(SVD_PARAMS.size);
+  return (
+    <>
+      <label>
+        Matrix size: {size}x{size}
+        {pending ? " (decomposing...)" : ""}
+        <input
+          type="range"
+          min={SVD_SIZE}
+          max={SVD_MAX_SIZE}
+          step={1}
+          value={size}
+          onChange={(e) => setSize(Number(e.target.value))}
+        />
+      </label>
+
+      <ImageDrop onImage={loadPicture} />
+      {picture && (
+        <button className="ghost-btn" onClick={() => setPicture(null)}>
+          Back to the built-in face
+        </button>
+      )}
+    </>
+  );
 }
 
-export function SVDViz() {
-  const [k, setK] = useState(4);
-  const [playing, setPlaying] = useState(false);
-  const [speed, setSpeed] = useState(750);
-  const [selectedComp, setSelectedComp] = useState(1);
-
-  const image = useMemo(() => buildFaceMatrix(), []);
-  const svd = useMemo(() => SVD(image), [image]);
-  const u = svd.u as number[][];
-  const v = svd.v as number[][];
-  const s = svd.q;
+function SVDExplorer({ image, u, s, v, picture, pending }: Decomposition) {
+  const messages = useMessages();
+  const text = messages.svd;
+  const [selectedCompParam, setSelectedComp] = useUrlParam(SVD_PARAMS.selectedComp);
+  const { sequentialMap, divergingMap } = useTheme();
+  const n = image.rows;
   const maxRank = s.length;
+  const selectedComp = Math.min(selectedCompParam, maxRank);
+  // Gaps would swallow the cells of a large matrix.
+  const gap = n > 32 ? 0 : 2;
 
-  useEffect(() => {
-    if (!playing) return;
-    const timer = window.setInterval(() => {
-      setK((curr) => (curr >= maxRank ? 1 : curr + 1));
-    }, speed);
-    return () => window.clearInterval(timer);
-  }, [playing, speed, maxRank]);
+  const transport = usePlayback(PLAYBACK, 1, maxRank);
+  const k = transport.frame;
 
   const recon = useMemo(() => reconstruct(u, s, v, k), [u, s, v, k]);
   const err = useMemo(() => residual(image, recon), [image, recon]);
-  const comp = useMemo(() => componentMap(u, s, v, selectedComp - 1), [u, s, v, selectedComp]);
+  const comp = useMemo(
+    () => sumOfOuterProducts(u, s, v, selectedComp - 1, selectedComp),
+    [u, s, v, selectedComp],
+  );
 
-  const reconMax = matrixMax(recon);
-  const errMax = matrixMax(err);
-  const compMax = matrixAbsMax(comp);
+  const errMax = maxValue(err.data);
+  const energyPct = (cumulativeEnergy(s, k) * 100).toFixed(1);
+  useTourCondition("svd-energy-90", cumulativeEnergy(s, k) >= 0.9);
+  useReportMetrics([
+    { label: "Rank k", value: k, digits: 0 },
+    { label: "Energy kept", value: cumulativeEnergy(s, k) * 100, digits: 1, unit: "%" },
+    { label: "Largest residual", value: errMax },
+  ]);
 
   return (
     <section>
       <h2>SVD Insight Visualizer</h2>
-      <p className="subtext">
-        Real SVD decomposition of an image-like matrix. Build rank-k reconstruction progressively to show how a few singular components keep most structure.
-      </p>
-
-      <div className="explain-card">
-        <strong>How to explain this slide</strong>
-        <span>1) Original image is a matrix A.</span>
-        <span>2) SVD splits A into ordered components by strength (singular values).</span>
-        <span>3) Keep only first k components to compress data.</span>
-        <span>4) Residual map shows what information gets lost.</span>
-      </div>
+      <p className="subtext">{messages.intros.svd}</p>
+
+      <ExplainCard notes={messages.notes.svd} />
+
+      <ExportMenu name="svd" transport={transport} />
 
       <div className="svd-layout">
-        <div className="svd-panels">
+        <div className="svd-panels" aria-busy={pending} data-figure {...stepperFigure(format(text.figure, { k }), transport)}>
           <div>
-            <h3>Original Matrix A</h3>
-            <div className="svd-grid" style={{ gridTemplateColumns: `repeat(${N}, 1fr)` }}>
-              {image.flatMap((row, y) =>
-                row.map((value, x) => (
-                  <div key={`o-${x}-${y}`} className="svd-cell" style={{ background: `rgba(149, 215, 255, ${0.06 + value * 0.94})` }} />
-                )),
-              )}
-            </div>
+            <h3>Original Matrix A{picture ? ` (${picture.name})` : ""}</h3>
+            <Heatmap matrix={image} colormap={sequentialMap} range={1} gap={gap} label={format(text.original, { n })} />
           </div>
 
-          <div>
+          <div data-tour="reconstruction">
             <h3>Rank-{k} Reconstruction</h3>
-            <div className="svd-grid" style={{ gridTemplateColumns: `repeat(${N}, 1fr)` }}>
-              {recon.flatMap((row, y) =>
-                row.map((value, x) => (
-                  <div
-                    key={`r-${x}-${y}`}
-                    className="svd-cell"
-                    style={{ background: `rgba(255, 208, 132, ${0.06 + (value / reconMax) * 0.94})` }}
-                  />
-                )),
-              )}
-            </div>
+            <Heatmap matrix={recon} colormap={sequentialMap} gap={gap} label={format(text.reconstruction, { k })} />
           </div>
 
-          <div>
+          <div data-tour="residual">
             <h3>Residual |A - A_k|</h3>
-            <div className="svd-grid" style={{ gridTemplateColumns: `repeat(${N}, 1fr)` }}>
-              {err.flatMap((row, y) =>
-                row.map((value, x) => (
-                  <div
-                    key={`e-${x}-${y}`}
-                    className="svd-cell"
-                    style={{ background: `rgba(255, 136, 136, ${0.05 + (value / errMax) * 0.95})` }}
-                  />
-                )),
-              )}
-            </div>
+            <Heatmap matrix={err} colormap={sequentialMap} gap={gap} label={format(text.residual, { k })} />
           </div>
 
           <div>
             <h3>Component #{selectedComp}: sigma * u_i * v_i^T</h3>
-            <div className="svd-grid" style={{ gridTemplateColumns: `repeat(${N}, 1fr)` }}>
-              {comp.flatMap((row, y) =>
-                row.map((value, x) => {
-                  const t = Math.abs(value) / compMax;
-                  const color = value >= 0 ? `rgba(255, 196, 110, ${0.1 + t * 0.9})` : `rgba(124, 194, 255, ${0.1 + t * 0.9})`;
-                  return <div key={`c-${x}-${y}`} className="svd-cell" style={{ background: color }} />;
-                }),
-              )}
-            </div>
+            <Heatmap matrix={comp} colormap={divergingMap} gap={gap} label={format(text.component, { i: selectedComp })} />
           </div>
         </div>
 
         <div className="controls">
-          <div className="preset-row">
-            <button className="ghost-btn" onClick={() => setPlaying((v) => !v)}>
-              {playing ? "Pause" : "Play"}
-            </button>
-            <button className="ghost-btn" onClick={() => setK(1)}>
-              Reset
-            </button>
-            <button
-              className="ghost-btn"
-              onClick={() => {
-                setPlaying(false);
-                setK((v) => Math.max(1, v - 1));
-              }}
-            >
-              Prev k
-            </button>
-            <button
-              className="ghost-btn"
-              onClick={() => {
-                setPlaying(false);
-                setK((v) => Math.min(maxRank, v + 1));
-              }}
-            >
-              Next k
-            </button>
-          </div>
-
-          <label>
-            Rank k: {k}
-            <input
-              type="range"
-              min={1}
-              max={maxRank}
-              step={1}
-              value={k}
-              onChange={(e) => {
-                setPlaying(false);
-                setK(Number(e.target.value));
-              }}
-            />
-          </label>
+          <TransportControls transport={transport} label="Rank k" speed={{ min: 250, max: 1500, step: 20 }} />
 
           <label>
             Component to inspect: {selectedComp}
@@ -232,24 +237,21 @@ export function SVDViz() {
             />
           </label>
 
-          <label>
-            Auto-play speed: {speed} ms
-            <input type="range" min={250} max={1500} step={20} value={speed} onChange={(e) => setSpeed(Number(e.target.value))} />
-          </label>
+          <SVDInputs picture={picture} pending={pending} />
 
           <div className="formula-block">
-            Compression ratio: {((k / (N * N)) * 100).toFixed(2)}% of raw entries (conceptual)
+            Compression ratio: {((k / (n * n)) * 100).toFixed(2)}% of raw entries (conceptual)
             <br />
-            Energy kept by first {k}: {(cumulativeEnergy(s, k) * 100).toFixed(1)}%
+            Energy kept by first {k}: {energyPct}%
             <br />
             sigma_{selectedComp}: {s[selectedComp - 1].toFixed(3)}
           </div>
 
-          <div className="formula-block">
+          <div className="formula-block" data-tour="spectrum">
             Singular value spectrum
-            <div className="svd-bars">
+            <div className="svd-bars" aria-hidden="true">
               {s.map((sv, i) => {
-                const pct = (sv / (s[0] + 1e-9)) * 100;
+                const pct = (sv / (s[0] + EPSILON)) * 100;
                 return (
                   <div key={i} className="svd-bar-row">
                     <span>#{i + 1}</span>
@@ -264,6 +266,15 @@ export function SVDViz() {
           </div>
         </div>
       </div>
+
+      <DataTable
+        caption={text.valuesCaption}
+        summary={format(text.valuesSummary, { k, count: maxRank, pct: energyPct })}
+        columns={["Component", "sigma", "Cumulative energy", "In rank-k reconstruction"]}
+        rows={s.map((sv, i) => [`#${i + 1}`, sv.toFixed(3), `${(cumulativeEnergy(s, i + 1) * 100).toFixed(1)}%`, i < k ? "yes" : "no"])}
+      />
+
+      <LiveRegion message={format(text.status, { k, pct: energyPct })} muted={transport.playing} />
     </section>
   );
 }
@@ -0,0 +1,33 @@
+import { randomSeed } from "../lib/random";
+import { type ParamSpec, useUrlParam } from "../lib/urlState";
+
+type SeedControlProps = {
+  param: ParamSpec<number>;
+  /** What the seed decides, e.g. "Dropout seed". */
+  label?: string;
+};
+
+/** Shows and edits a concept's random seed; the same seed redraws the same numbers. */
+export function SeedControl({ param, label = "Seed" }: SeedControlProps) {
+  const [seed, setSeed] = useUrlParam(param);
+
+  return (
+    <div className="seed-control">
+      <label>
+        {label}: {seed}
+        <input
+          type="number"
+          min={0}
+          step={1}
+          value={seed}
+          onChange={(e) => {
+            if (e.target.value !== "") setSeed(Number(e.target.value));
+          }}
+        />
+      </label>
+      <button className="ghost-btn" onClick={() => setSeed(randomSeed())}>
+        New seed
+      </button>
+    </div>
+  );
+}
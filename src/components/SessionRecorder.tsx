@@ -0,0 +1,137 @@
+import { useEffect, useRef, useState } from "react";
+import { downloadBlob } from "../lib/exportFrame";
+import {
+  REPLAY_SPEEDS,
+  parseRecording,
+  pauseReplay,
+  resumeReplay,
+  seekReplay,
+  serializeRecording,
+  setReplaySpeed,
+  startRecording,
+  startReplay,
+  stopRecording,
+  stopReplay,
+  useRecorder,
+} from "../lib/replay";
+
+function formatTime(ms: number) {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+function RecordingClock({ startedAt }: { startedAt: number }) {
+  const [now, setNow] = useState(() => performance.now());
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(performance.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+  return <>{formatTime(now - startedAt)}</>;
+}
+
+/** Record, export and load session recordings. */
+export function RecorderMenu() {
+  const recorder = useRecorder();
+  const input = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const replayFile = async (file: File) => {
+    try {
+      startReplay(parseRecording(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const last = recorder.kind === "idle" ? recorder.last : null;
+
+  return (
+    <div className="recorder-menu" role="group" aria-label="Session recording">
+      <span className="export-label">Session</span>
+      {recorder.kind === "recording" ? (
+        <button className="ghost-btn recorder-live" onClick={stopRecording}>
+          Stop recording (<RecordingClock startedAt={recorder.startedAt} /> · {recorder.changes} changes)
+        </button>
+      ) : (
+        <button className="ghost-btn" onClick={startRecording} disabled={recorder.kind === "replaying"}>
+          Record
+        </button>
+      )}
+      {last && (
+        <>
+          <button className="ghost-btn" onClick={() => startReplay(last)}>
+            Replay ({formatTime(last.duration)})
+          </button>
+          <button
+            className="ghost-btn"
+            onClick={() =>
+              downloadBlob(
+                new Blob([serializeRecording(last)], { type: "application/json" }),
+                `session-${last.recordedAt.slice(0, 19).replace(/[:T]/g, "-")}.json`,
+              )
+            }
+          >
+            Export recording
+          </button>
+        </>
+      )}
+      <button className="ghost-btn" onClick={() => input.current?.click()} disabled={recorder.kind !== "idle"}>
+        Replay file…
+      </button>
+      <input
+        ref={input}
+        type="file"
+        accept=".json,application/json"
+        hidden
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) void replayFile(file);
+        }}
+      />
+      {error && (
+        <span className="export-error" role="alert">
+          {error}
+        </span>
+      )}
+    </div>
+  );
+}
+
+/** Transport for a running replay; shown in every layout, presentations included. */
+export function ReplayBar() {
+  const recorder = useRecorder();
+  if (recorder.kind !== "replaying") return null;
+  const { recording, position, playing, speed } = recorder;
+
+  return (
+    <div className="replay-bar" role="group" aria-label="Replay">
+      <button className="ghost-btn" onClick={playing ? pauseReplay : resumeReplay}>
+        {playing ? "Pause" : "Play"}
+      </button>
+      <input
+        type="range"
+        aria-label="Replay position"
+        min={0}
+        max={recording.duration}
+        step={100}
+        value={position}
+        onChange={(e) => seekReplay(Number(e.target.value))}
+      />
+      <span className="replay-time">
+        {formatTime(position)} / {formatTime(recording.duration)}
+      </span>
+      <select aria-label="Replay speed" value={speed} onChange={(e) => setReplaySpeed(Number(e.target.value))}>
+        {REPLAY_SPEEDS.map((s) => (
+          <option key={s} value={s}>
+            {s}×
+          </option>
+        ))}
+      </select>
+      <button className="ghost-btn" onClick={stopReplay}>
+        Stop replay
+      </button>
+    </div>
+  );
+}
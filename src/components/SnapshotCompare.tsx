@@ -0,0 +1,121 @@
+import { type ReactNode, useMemo } from "react";
+import { withoutPresentation } from "../lib/deck";
+import {
+  type Metric,
+  type MetricsStore,
+  MetricsScope,
+  createMetricsStore,
+  formatMetric,
+  formatMetricDelta,
+  useMetrics,
+} from "../lib/metrics";
+import type { ConceptDefinition } from "../lib/registry";
+import { type ParamStore, frozenStore, readParam, useSearch } from "../lib/urlState";
+
+type SnapshotCompareProps = {
+  concept: ConceptDefinition;
+  /** The live view's store; pinning freezes its current state. */
+  store: ParamStore;
+  /** Query string of the pinned state, or null when nothing is pinned. */
+  pinned: string | null;
+  onPin: (search: string | null) => void;
+  render: (store: ParamStore) => ReactNode;
+};
+
+/** Parameters whose values differ between the pinned and live states. */
+function changedParams(concept: ConceptDefinition, pinned: URLSearchParams, live: URLSearchParams) {
+  return Object.values(concept.params ?? {})
+    .filter((spec) => !spec.transient)
+    .map((spec) => ({
+      key: spec.key,
+      before: spec.codec.format(readParam(spec, pinned)),
+      after: spec.codec.format(readParam(spec, live)),
+    }))
+    .filter((change) => change.before !== change.after);
+}
+
+function MetricsDiff({ pinned, live }: { pinned: MetricsStore; live: MetricsStore }) {
+  const before = useMetrics(pinned);
+  const after = useMetrics(live);
+  if (after.length === 0) return null;
+  const byLabel = new Map<string, Metric>(before.map((metric) => [metric.label, metric]));
+
+  return (
+    <table className="snapshot-metrics">
+      <caption className="sr-only">Key metrics, pinned snapshot versus live</caption>
+      <thead>
+        <tr>
+          <th scope="col">Metric</th>
+          <th scope="col">Pinned</th>
+          <th scope="col">Live</th>
+          <th scope="col">Change</th>
+        </tr>
+      </thead>
+      <tbody>
+        {after.map((metric) => {
+          const old = byLabel.get(metric.label);
+          const changed = old !== undefined && formatMetric(old) !== formatMetric(metric);
+          return (
+            <tr key={metric.label} className={changed ? "snapshot-changed" : undefined}>
+              <th scope="row">{metric.label}</th>
+              <td>{old ? formatMetric(old) : "—"}</td>
+              <td>{formatMetric(metric)}</td>
+              <td>{old ? (formatMetricDelta(old, metric) ?? (changed ? "changed" : "same")) : "—"}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * The live view, optionally next to a frozen copy of an earlier state with a
+ * diff of the metrics both copies report. The live copy keeps its position in
+ * the tree so pinning never remounts it.
+ */
+export function SnapshotCompare({ concept, store, pinned, onPin, render }: SnapshotCompareProps) {
+  const live = useSearch();
+  const pinnedParams = useMemo(() => (pinned === null ? null : new URLSearchParams(pinned)), [pinned]);
+  const pinnedStore = useMemo(() => (pinnedParams ? frozenStore(pinnedParams) : null), [pinnedParams]);
+  const pinnedMetrics = useMemo(() => createMetricsStore(), []);
+  const liveMetrics = useMemo(() => createMetricsStore(), []);
+
+  const pin = () => onPin(withoutPresentation(new URLSearchParams(store.getSnapshot())).toString());
+  const changes = pinnedParams ? changedParams(concept, pinnedParams, live) : [];
+
+  return (
+    <div className={pinnedStore ? "snapshot snapshot-active" : "snapshot"}>
+      <div className="snapshot-bar" role="group" aria-label="Snapshot comparison">
+        <button className="ghost-btn" onClick={pin} title="Freeze the current state and show it next to the live view">
+          {pinnedStore ? "Re-pin current state" : "Pin snapshot"}
+        </button>
+        {pinnedStore && (
+          <>
+            <button className="ghost-btn" onClick={() => onPin(null)}>
+              Unpin
+            </button>
+            <span className="snapshot-changes">
+              {changes.length === 0
+                ? "Same settings as the snapshot"
+                : changes.map((change) => `${change.key}: ${change.before} → ${change.after}`).join(" · ")}
+            </span>
+          </>
+        )}
+      </div>
+      {pinnedStore && <MetricsDiff pinned={pinnedMetrics} live={liveMetrics} />}
+      <div className="snapshot-columns">
+        {pinnedStore && (
+          <div key="pinned" className="snapshot-pinned" aria-label="Pinned snapshot">
+            <span className="snapshot-label">Pinned</span>
+            <MetricsScope value={pinnedMetrics}>{render(pinnedStore)}</MetricsScope>
+          </div>
+        )}
+        <div key="live" className="snapshot-live">
+          {pinnedStore && <span className="snapshot-label">Live</span>}
+          <MetricsScope value={liveMetrics}>{render(store)}</MetricsScope>
+        </div>
+      </div>
+    </div>
+  );
+}
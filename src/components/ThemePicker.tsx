@@ -0,0 +1,60 @@
+import {
+  DIVERGING_COLORMAPS,
+  DIVERGING_IDS,
+  type DivergingId,
+  SEQUENTIAL_COLORMAPS,
+  SEQUENTIAL_IDS,
+  type SequentialId,
+  THEMES,
+  THEME_IDS,
+  THEME_PARAMS,
+  type ThemeId,
+} from "../lib/theme";
+import { useUrlParam } from "../lib/urlState";
+
+function mapLabel(map: { label: string; colorblindSafe: boolean }) {
+  return map.colorblindSafe ? `${map.label} · colorblind-safe` : map.label;
+}
+
+export function ThemePicker() {
+  const [theme, setTheme] = useUrlParam(THEME_PARAMS.theme);
+  const [sequential, setSequential] = useUrlParam(THEME_PARAMS.sequential);
+  const [diverging, setDiverging] = useUrlParam(THEME_PARAMS.diverging);
+  const defaults = THEMES[theme];
+
+  return (
+    <div className="theme-picker" role="group" aria-label="Colors">
+      <select aria-label="Theme" value={theme} onChange={(e) => setTheme(e.target.value as ThemeId)}>
+        {THEME_IDS.map((id) => (
+          <option key={id} value={id}>
+            {THEMES[id].label}
+          </option>
+        ))}
+      </select>
+      <select
+        aria-label="Sequential colormap"
+        value={sequential}
+        onChange={(e) => setSequential(e.target.value as SequentialId | "auto")}
+      >
+        <option value="auto">Sequential: {SEQUENTIAL_COLORMAPS[defaults.sequential].label} (theme)</option>
+        {SEQUENTIAL_IDS.map((id) => (
+          <option key={id} value={id}>
+            Sequential: {mapLabel(SEQUENTIAL_COLORMAPS[id])}
+          </option>
+        ))}
+      </select>
+      <select
+        aria-label="Diverging colormap"
+        value={diverging}
+        onChange={(e) => setDiverging(e.target.value as DivergingId | "auto")}
+      >
+        <option value="auto">Diverging: {DIVERGING_COLORMAPS[defaults.diverging].label} (theme)</option>
+        {DIVERGING_IDS.map((id) => (
+          <option key={id} value={id}>
+            Diverging: {mapLabel(DIVERGING_COLORMAPS[id])}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
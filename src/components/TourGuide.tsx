@@ -0,0 +1,106 @@
+import { useEffect } from "react";
+import { localizeTour, useMessages } from "../lib/i18n";
+import type { ConceptDefinition } from "../lib/registry";
+import { endTour, goToTourStep, startTour, useTour } from "../lib/tour";
+import { LiveRegion } from "./LiveRegion";
+
+const HIGHLIGHT_CLASS = "tour-highlight";
+
+export function TourLauncher({ concept }: { concept: ConceptDefinition }) {
+  const tour = useTour();
+  const messages = useMessages();
+  if (!concept.tours?.length) return null;
+
+  return (
+    <div className="tour-menu" role="group" aria-label="Guided tours">
+      <span className="export-label">Guided tour</span>
+      {concept.tours.map((candidate) => (
+        <button
+          key={candidate.id}
+          className="ghost-btn"
+          aria-pressed={tour?.tour === candidate}
+          onClick={() => startTour(concept, candidate)}
+        >
+          {localizeTour(candidate, messages).title}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// The panel may not be mounted yet when a tour switches tabs (lazy chunks),
+// so keep looking until it appears.
+function useHighlight(concept: string | undefined, name: string | undefined) {
+  useEffect(() => {
+    if (!concept || !name) return;
+    // The live copy, not a pinned snapshot of it.
+    const selector = `[data-concept="${concept}"] .snapshot-live [data-tour="${name}"]`;
+    let element: Element | null = null;
+    const attach = () => {
+      element = document.querySelector(selector);
+      if (!element) return false;
+      element.classList.add(HIGHLIGHT_CLASS);
+      element.scrollIntoView({ block: "nearest", behavior: "smooth" });
+      return true;
+    };
+    if (attach()) return () => element?.classList.remove(HIGHLIGHT_CLASS);
+
+    const observer = new MutationObserver(() => {
+      if (attach()) observer.disconnect();
+    });
+    observer.observe(document.body, { childList: true, subtree: true });
+    return () => {
+      observer.disconnect();
+      element?.classList.remove(HIGHLIGHT_CLASS);
+    };
+  }, [concept, name]);
+}
+
+export function TourCallout() {
+  const tour = useTour();
+  const messages = useMessages();
+  // Localized on display, so switching language mid-tour updates the callout.
+  const shown = tour ? localizeTour(tour.tour, messages) : null;
+  const step = tour ? shown?.steps[tour.index] : undefined;
+  useHighlight(tour?.concept, step?.highlight);
+
+  useEffect(() => {
+    if (!tour) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") endTour();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [tour]);
+
+  if (!tour || !shown || !step) return null;
+  const last = tour.index === tour.tour.steps.length - 1;
+
+  return (
+    <aside className="tour-callout" aria-label={`Tour: ${shown.title}`}>
+      <span className="tour-progress">
+        {shown.title} · {tour.index + 1} / {shown.steps.length}
+      </span>
+      <strong>{step.title}</strong>
+      {tour.ready ? <p>{step.say}</p> : <p className="tour-waiting">Watch the animation…</p>}
+      <div className="tour-actions">
+        <button className="ghost-btn" onClick={() => goToTourStep(tour.index - 1)} disabled={tour.index === 0}>
+          Back
+        </button>
+        {last ? (
+          <button className="ghost-btn" onClick={endTour}>
+            Finish
+          </button>
+        ) : (
+          <button className="ghost-btn" onClick={() => goToTourStep(tour.index + 1)} disabled={!tour.ready}>
+            Next
+          </button>
+        )}
+        <button className="ghost-btn" onClick={endTour}>
+          End tour
+        </button>
+      </div>
+      <LiveRegion message={tour.ready ? `${step.title}. ${step.say}` : step.title} />
+    </aside>
+  );
+}
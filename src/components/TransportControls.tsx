@@ -0,0 +1,81 @@
+import type { ReactNode } from "react";
+import { useMessages } from "../lib/i18n";
+import { type Transport, setAnimationsHeld, useAnimationsHeld } from "../lib/playback";
+
+type TransportControlsProps = {
+  transport: Transport;
+  /** Scrub bar caption, e.g. "Rank k". */
+  label: string;
+  /** How the current frame reads next to the caption; defaults to the frame. */
+  value?: ReactNode;
+  speed: { min: number; max: number; step: number };
+  /** Distinguishes several transports in one view ("Scan", "Training"). */
+  name?: string;
+  inline?: boolean;
+};
+
+export function TransportControls({ transport, label, value, speed, name, inline = false }: TransportControlsProps) {
+  const suffix = name ? ` ${name}` : "";
+
+  return (
+    <div className={inline ? "transport transport-inline" : "transport"} role="group" aria-label={`${name ?? label} playback`}>
+      <div className="preset-row">
+        <button className="ghost-btn" onClick={transport.toggle}>
+          {transport.playing ? "Pause" : "Play"}
+          {suffix}
+        </button>
+        <button className="ghost-btn" onClick={() => transport.step(-1)}>
+          Prev
+        </button>
+        <button className="ghost-btn" onClick={() => transport.step(1)}>
+          Next
+        </button>
+        <button className="ghost-btn" onClick={transport.reset}>
+          Reset
+        </button>
+        <button
+          className={transport.loop ? "ghost-btn ghost-btn-on" : "ghost-btn"}
+          aria-pressed={transport.loop}
+          onClick={() => transport.setLoop(!transport.loop)}
+        >
+          Loop
+        </button>
+      </div>
+
+      <label>
+        {label}: {value ?? transport.frame}
+        <input
+          type="range"
+          min={transport.first}
+          max={transport.last}
+          step={1}
+          value={transport.frame}
+          onChange={(e) => transport.scrub(Number(e.target.value))}
+        />
+      </label>
+
+      <label>
+        {name ?? "Playback"} speed: {transport.speed} ms
+        <input
+          type="range"
+          min={speed.min}
+          max={speed.max}
+          step={speed.step}
+          value={transport.speed}
+          onChange={(e) => transport.setSpeed(Number(e.target.value))}
+        />
+      </label>
+    </div>
+  );
+}
+
+/** Holds every transport still, e.g. while answering a question. */
+export function HoldAnimationsButton({ className }: { className: string }) {
+  const held = useAnimationsHeld();
+  const { app } = useMessages();
+  return (
+    <button className={className} aria-pressed={held} onClick={() => setAnimationsHeld(!held)}>
+      {held ? app.resumeAnimations : app.pauseAnimations}
+    </button>
+  );
+}
@@ -0,0 +1,16 @@
+import { applyUpdate, useUpdateAvailable } from "../lib/serviceWorker";
+
+/** Shown once a newer deploy has been downloaded and is waiting to take over. */
+export function UpdatePrompt() {
+  const available = useUpdateAvailable();
+  if (!available) return null;
+
+  return (
+    <div className="update-prompt" role="status">
+      <span>A new version of the visualizer is available.</span>
+      <button className="ghost-btn" onClick={applyUpdate}>
+        Update and reload
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { seedParam } from "../lib/random";
+import { defineConcept } from "../lib/registry";
+import { boolParam, intParam, numberParam, param } from "../lib/urlState";
+import { en } from "../locales/en";
+
+export const CNN_PARAMS = {
+  // Eye, mouth and edge detectors.
+  activeKernel: param("kernel", intParam(0, 2), 0),
+  dropRate: param("drop", numberParam(0.1, 0.75), 0.35),
+  // Draws the dropout mask of every training iteration.
+  seed: seedParam(7),
+  scanSpeed: param("speed", intParam(60, 400), 160),
+  scanLoop: param("loop", boolParam, true),
+  scanPlaying: param("scan", boolParam, true, { transient: true }),
+  // 3x3 window positions over the 14x14 input.
+  scanIndex: param("pos", intParam(0, 12 * 12 - 1), 0, { transient: true }),
+  iterSpeed: param("trainSpeed", intParam(120, 1000), 330),
+  iterLoop: param("trainLoop", boolParam, true),
+  iterPlaying: param("train", boolParam, true, { transient: true }),
+  iteration: param("iter", intParam(1, 120), 1, { transient: true }),
+};
+
+export default defineConcept({
+  id: "cnn",
+  label: "CNN",
+  description: "Feature detectors scanning a face image, followed by pooling, dropout and a classifier.",
+  load: () => import("../components/CNNViz").then((module) => ({ default: module.CNNViz })),
+  params: CNN_PARAMS,
+  notes: en.notes.cnn,
+  scenes: [
+    // Each scene scans the kernel over what it detects: an eye, the mouth, the face's left edge.
+    { ...en.scenes.cnn[0], params: { kernel: "0", pos: "52" } },
+    { ...en.scenes.cnn[1], params: { kernel: "1", pos: "100" } },
+    { ...en.scenes.cnn[2], params: { kernel: "2", drop: "0.6", pos: "24" } },
+  ],
+});
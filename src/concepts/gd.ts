@@ -0,0 +1,61 @@
+import { defineConcept } from "../lib/registry";
+import { boolParam, intParam, numberParam, param, vec2Param } from "../lib/urlState";
+import { en } from "../locales/en";
+
+export const GD_PARAMS = {
+  start: param("start", vec2Param(-0.95, 0.95), [-0.85, 0.85] as [number, number]),
+  lr: param("lr", numberParam(0.05, 0.72), 0.66),
+  adamLr: param("adamLr", numberParam(0.02, 0.4), 0.12),
+  steps: param("steps", intParam(10, 80), 40),
+  beta1: param("beta1", numberParam(0.5, 0.99), 0.9),
+  beta2: param("beta2", numberParam(0.9, 0.9995), 0.999),
+  yaw: param("yaw", intParam(-80, 80), -38),
+  pitch: param("pitch", intParam(-80, -20), -55),
+  showSGD: param("sgd", boolParam, true),
+  showAdam: param("adam", boolParam, true),
+  speedMs: param("speed", intParam(60, 500), 180),
+  loop: param("loop", boolParam, true),
+  isPlaying: param("play", boolParam, true, { transient: true }),
+  visibleStep: param("step", intParam(0, 80), 0, { transient: true }),
+};
+
+export default defineConcept({
+  id: "gd",
+  label: "Gradient Descent",
+  description: "SGD and Adam racing down an asymmetric loss surface.",
+  load: () => import("../components/GradientDescentViz").then((module) => ({ default: module.GradientDescentViz })),
+  params: GD_PARAMS,
+  // The whole run; the view stops at the last step the run has.
+  printParams: { step: "80" },
+  scenes: [
+    en.scenes.gd[0],
+    { ...en.scenes.gd[1], params: { lr: "0.7", adam: "0" } },
+    { ...en.scenes.gd[2], params: { beta1: "0.6" } },
+  ],
+  tours: [
+    {
+      id: "sgd-vs-adam",
+      title: en.tours["sgd-vs-adam"].title,
+      steps: [
+        {
+          ...en.tours["sgd-vs-adam"].steps[0],
+          params: { lr: "0.7", sgd: "1", adam: "0", steps: "40", loop: "0", step: "0" },
+          highlight: "surface",
+          play: true,
+          until: { param: "step", atLeast: 12 },
+        },
+        {
+          ...en.tours["sgd-vs-adam"].steps[1],
+          highlight: "loss-chart",
+        },
+        {
+          ...en.tours["sgd-vs-adam"].steps[2],
+          params: { adam: "1", steps: "40", step: "0" },
+          highlight: "surface",
+          play: true,
+          until: { param: "step", atLeast: 30 },
+        },
+      ],
+    },
+  ],
+});
@@ -0,0 +1,13 @@
+import { registerConcept } from "../lib/registry";
+import cnn from "./cnn";
+import gd from "./gd";
+import llm from "./llm";
+import llmflow from "./llmflow";
+import pca from "./pca";
+import relu from "./relu";
+import rnn from "./rnn";
+import svd from "./svd";
+
+// Built-in tabs, in display order. Additional concepts register themselves
+// the same way from their own module.
+[svd, pca, gd, relu, cnn, rnn, llm, llmflow].forEach(registerConcept);
@@ -0,0 +1,32 @@
+import { seedParam } from "../lib/random";
+import { defineConcept } from "../lib/registry";
+import { boolParam, intParam, numberParam, param } from "../lib/urlState";
+import { en } from "../locales/en";
+
+export const LLM_PARAMS = {
+  // Context grows up to the full nine-token example sentence.
+  contextLen: param("ctx", intParam(4, 9), 7),
+  blend: param("blend", numberParam(0, 1), 0.5),
+  temperature: param("temp", numberParam(0.4, 1.8), 1),
+  cellSize: param("cell", intParam(8, 22), 14),
+  // Draws the toy token embeddings and output projection.
+  seed: seedParam(5),
+  speed: param("speed", intParam(250, 1500), 900),
+  loop: param("loop", boolParam, true),
+  playing: param("play", boolParam, true, { transient: true }),
+};
+
+export default defineConcept({
+  id: "llm",
+  label: "LLM",
+  description: "Syntax and semantic attention heads merged into one row for next-token prediction.",
+  load: () => import("../components/LLMViz").then((module) => ({ default: module.LLMViz })),
+  params: LLM_PARAMS,
+  notes: en.notes.llm,
+  scenes: [
+    en.scenes.llm[0],
+    { ...en.scenes.llm[1], params: { blend: "1" } },
+    { ...en.scenes.llm[2], params: { blend: "0" } },
+    { ...en.scenes.llm[3], params: { temp: "1.8" } },
+  ],
+});
@@ -0,0 +1,24 @@
+import { defineConcept } from "../lib/registry";
+import { boolParam, intParam, param } from "../lib/urlState";
+import { en } from "../locales/en";
+
+export const LLM_FLOW_PARAMS = {
+  // Seven pipeline stages, from raw text to the sampled token.
+  active: param("stage", intParam(0, 6), 0),
+  speed: param("speed", intParam(500, 2000), 1100),
+  loop: param("loop", boolParam, true),
+  playing: param("play", boolParam, false, { transient: true }),
+};
+
+export default defineConcept({
+  id: "llmflow",
+  label: "LLM Flow",
+  description: "The full lifecycle of one generated token, from tokenization to sampling.",
+  load: () => import("../components/LLMFlowViz").then((module) => ({ default: module.LLMFlowViz })),
+  params: LLM_FLOW_PARAMS,
+  notes: en.notes.llmflow,
+  scenes: [
+    en.scenes.llmflow[0],
+    { ...en.scenes.llmflow[1], params: { stage: "5" } },
+  ],
+});
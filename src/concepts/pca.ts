@@ -0,0 +1,80 @@
+import { defineConcept } from "../lib/registry";
+import { enumParam, intParam, param } from "../lib/urlState";
+import { en } from "../locales/en";
+
+export type PresetKey = "6" | "12" | "14" | "18" | "30";
+
+export type PcaArtifact = {
+  meta: {
+    dim: number;
+    imageSide: number;
+    trainSize: number;
+    testSize: number;
+    presetComponents: number[];
+    knnNeighbors: number;
+  };
+  testLabels: number[];
+  meanVector: number[];
+  testVectors: number[][];
+  reconstructions: Record<PresetKey, number[][]>;
+  scatter: Array<{ x: number; y: number; label: number }>;
+  eigendigits: number[][];
+  pcStd: number[];
+  explained: Record<PresetKey, number>;
+  explainedCumulative: number[];
+  knnAccuracy: Record<PresetKey, number>;
+};
+
+let pcaDataCache: PcaArtifact | null = null;
+let pcaDataPromise: Promise<PcaArtifact> | null = null;
+
+export function loadPcaArtifact() {
+  if (pcaDataCache) {
+    return Promise.resolve(pcaDataCache);
+  }
+  if (pcaDataPromise) {
+    return pcaDataPromise;
+  }
+
+  pcaDataPromise = fetch("/data/pca-presets.json")
+    .then((response) => {
+      if (!response.ok) {
+        throw new Error(`Failed to load PCA presets (${response.status})`);
+      }
+      return response.json() as Promise<PcaArtifact>;
+    })
+    .then((artifact) => {
+      pcaDataCache = artifact;
+      return artifact;
+    })
+    .catch((error) => {
+      pcaDataPromise = null;
+      throw error;
+    });
+
+  return pcaDataPromise;
+}
+
+export function cachedPcaArtifact() {
+  return pcaDataCache;
+}
+
+export const PCA_PARAMS = {
+  preset: param("preset", enumParam<PresetKey>(["6", "12", "14", "18", "30"]), "12"),
+  sampleIndex: param("sample", intParam(0, 9999), 0),
+  selectedPc: param("pc", intParam(0, 11), 0),
+};
+
+export default defineConcept({
+  id: "pca",
+  label: "PCA",
+  description: "Handwritten digits compressed to a few principal components, with reconstructions and k-NN accuracy.",
+  load: () => import("../components/PCAViz").then((module) => ({ default: module.PCAViz })),
+  params: PCA_PARAMS,
+  preload: loadPcaArtifact,
+  scenes: [
+    en.scenes.pca[0],
+    { ...en.scenes.pca[1], params: { preset: "6" } },
+    { ...en.scenes.pca[2], params: { preset: "30" } },
+  ],
+});
@@ -0,0 +1,35 @@
+import { defineConcept } from "../lib/registry";
+import { boolParam, enumParam, intParam, listParam, numberParam, param } from "../lib/urlState";
+import { en } from "../locales/en";
+
+export type ActId = "relu" | "leaky" | "elu" | "sigmoid";
+
+export const ACT_IDS: ActId[] = ["relu", "leaky", "elu", "sigmoid"];
+
+/** One sweep of the input x from -3 to 3 and back. */
+export const RELU_SWEEP_FRAMES = 120;
+
+export const RELU_PARAMS = {
+  active: param("acts", listParam(enumParam(ACT_IDS)), ["relu", "leaky"] as ActId[]),
+  alpha: param("alpha", numberParam(0.01, 0.5), 0.1),
+  showDeriv: param("deriv", boolParam, true),
+  showDeadZone: param("dead", boolParam, true),
+  bias: param("bias", numberParam(-2.5, 2.5), 0),
+  speed: param("speed", intParam(20, 120), 50),
+  loop: param("loop", boolParam, true),
+  phase: param("phase", intParam(0, RELU_SWEEP_FRAMES - 1), 0, { transient: true }),
+  isPlaying: param("play", boolParam, true, { transient: true }),
+};
+
+export default defineConcept({
+  id: "relu",
+  label: "Activations",
+  description: "ReLU and its variants, their derivatives, and the dying-ReLU dead zone.",
+  load: () => import("../components/ReLUViz").then((module) => ({ default: module.ReLUViz })),
+  params: RELU_PARAMS,
+  scenes: [
+    en.scenes.relu[0],
+    { ...en.scenes.relu[1], params: { acts: "relu", bias: "-1.8" } },
+    { ...en.scenes.relu[2], params: { acts: "elu,sigmoid" } },
+  ],
+});
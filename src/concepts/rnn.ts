@@ -0,0 +1,30 @@
+import { seedParam } from "../lib/random";
+import { defineConcept } from "../lib/registry";
+import { boolParam, intParam, numberParam, param } from "../lib/urlState";
+import { en } from "../locales/en";
+
+export const RNN_PARAMS = {
+  // One timestep per character of "hello ".
+  t: param("t", intParam(0, 5), 0),
+  speed: param("speed", intParam(180, 1200), 520),
+  loop: param("loop", boolParam, true),
+  recurrentGain: param("recurrent", numberParam(0.2, 1.45), 1),
+  inputGain: param("input", numberParam(0.4, 1.6), 1),
+  // Initialises the untrained weights.
+  seed: seedParam(11),
+  playing: param("play", boolParam, true, { transient: true }),
+};
+
+export default defineConcept({
+  id: "rnn",
+  label: "RNN",
+  description: "An unrolled RNN reading one character per timestep and carrying memory forward.",
+  load: () => import("../components/RNNViz").then((module) => ({ default: module.RNNViz })),
+  params: RNN_PARAMS,
+  notes: en.notes.rnn,
+  scenes: [
+    en.scenes.rnn[0],
+    { ...en.scenes.rnn[1], params: { recurrent: "0.3" } },
+    { ...en.scenes.rnn[2], params: { recurrent: "1.4" } },
+  ],
+});
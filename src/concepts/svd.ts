@@ -0,0 +1,55 @@
+import { defineConcept } from "../lib/registry";
+import { boolParam, intParam, param } from "../lib/urlState";
+import { en } from "../locales/en";
+
+// The built-in face is 14×14; an uploaded picture can be resampled up to 128×128.
+export const SVD_SIZE = 14;
+export const SVD_MAX_SIZE = 128;
+
+export const SVD_PARAMS = {
+  size: param("size", intParam(SVD_SIZE, SVD_MAX_SIZE), SVD_SIZE),
+  // Ranks beyond the current size are clamped by the view.
+  k: param("k", intParam(1, SVD_MAX_SIZE), 4),
+  selectedComp: param("comp", intParam(1, SVD_MAX_SIZE), 1),
+  speed: param("speed", intParam(250, 1500), 750),
+  loop: param("loop", boolParam, true),
+  playing: param("play", boolParam, false, { transient: true }),
+};
+
+export default defineConcept({
+  id: "svd",
+  label: "SVD",
+  description: "Rank-k reconstruction of an image-like matrix from its singular components.",
+  load: () => import("../components/SVDViz").then((module) => ({ default: module.SVDViz })),
+  params: SVD_PARAMS,
+  notes: en.notes.svd,
+  scenes: [
+    { ...en.scenes.svd[0], params: { k: "1" } },
+    { ...en.scenes.svd[1], params: { k: "4" } },
+    { ...en.scenes.svd[2], params: { k: "8", comp: "8" } },
+  ],
+  tours: [
+    {
+      id: "energy-sweep",
+      title: en.tours["energy-sweep"].title,
+      steps: [
+        {
+          ...en.tours["energy-sweep"].steps[0],
+          params: { k: "1" },
+          highlight: "reconstruction",
+        },
+        {
+          ...en.tours["energy-sweep"].steps[1],
+          params: { k: "1", loop: "0" },
+          highlight: "spectrum",
+          play: true,
+          until: { condition: "svd-energy-90" },
+        },
+        {
+          ...en.tours["energy-sweep"].steps[2],
+          highlight: "residual",
+        },
+      ],
+    },
+  ],
+});
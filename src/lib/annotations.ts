@@ -0,0 +1,112 @@
+import { useCallback, useSyncExternalStore } from "react";
+
+// Presenter ink over the panel. Drawings are kept per slide in localStorage,
+// which also carries them to audience windows: other windows of the same
+// origin get a `storage` event on every change. Points are placed relative to
+// the view's figure (its `data-figure` element) rather than the panel, since
+// presenter and audience windows show different chrome around it.
+
+/** Relative to the figure's top-left corner: x and y are both divided by its width, so shapes keep their aspect. */
+export type InkPoint = [number, number];
+
+/** Palette tokens, so ink follows the theme. */
+export const INK_COLORS = ["emphasis", "negative", "info", "positive"] as const;
+export type InkColor = (typeof INK_COLORS)[number];
+
+export type InkTool = "pen" | "highlighter" | "arrow" | "text";
+
+export type Annotation =
+  | { tool: "pen" | "highlighter"; color: InkColor; points: InkPoint[] }
+  | { tool: "arrow"; color: InkColor; from: InkPoint; to: InkPoint }
+  | { tool: "text"; color: InkColor; at: InkPoint; text: string };
+
+// v1 was relative to the whole panel.
+const STORAGE_KEY = "dl-visualizer:annotations:v2";
+const NONE: Annotation[] = [];
+
+let cache: { raw: string | null; bySlide: Record<string, Annotation[]> } = { raw: null, bySlide: {} };
+const listeners = new Set<() => void>();
+
+function readAll() {
+  let raw: string | null = null;
+  try {
+    raw = window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    // Storage blocked: ink still works for this page, it just is not kept.
+    return cache.bySlide;
+  }
+  if (raw !== cache.raw) {
+    let bySlide: Record<string, Annotation[]> = {};
+    try {
+      bySlide = raw ? (JSON.parse(raw) as Record<string, Annotation[]>) : {};
+    } catch {
+      // Corrupt entry: start over rather than fail every slide.
+    }
+    cache = { raw, bySlide };
+  }
+  return cache.bySlide;
+}
+
+function writeAll(bySlide: Record<string, Annotation[]>) {
+  const raw = JSON.stringify(bySlide);
+  cache = { raw, bySlide };
+  try {
+    window.localStorage.setItem(STORAGE_KEY, raw);
+  } catch {
+    // Quota or blocked storage; the in-memory copy above still updates.
+  }
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY || event.key === null) listener();
+  };
+  listeners.add(listener);
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+export function setAnnotations(slide: string, annotations: Annotation[]) {
+  const next = { ...readAll() };
+  if (annotations.length === 0) delete next[slide];
+  else next[slide] = annotations;
+  writeAll(next);
+}
+
+/** The ink on one slide and a setter that persists it. */
+export function useAnnotations(slide: string) {
+  const get = useCallback(() => readAll()[slide] ?? NONE, [slide]);
+  const annotations = useSyncExternalStore(subscribe, get, () => NONE);
+  const set = useCallback((next: Annotation[]) => setAnnotations(slide, next), [slide]);
+  return [annotations, set] as const;
+}
+
+// ─── Drawing mode ──────────────────────────────────────────────────────────
+
+let drawing = false;
+const drawingListeners = new Set<() => void>();
+
+export function setDrawing(next: boolean) {
+  if (drawing === next) return;
+  drawing = next;
+  drawingListeners.forEach((listener) => listener());
+}
+
+function subscribeDrawing(listener: () => void) {
+  drawingListeners.add(listener);
+  return () => {
+    drawingListeners.delete(listener);
+  };
+}
+
+function getDrawing() {
+  return drawing;
+}
+
+export function useDrawing() {
+  return useSyncExternalStore(subscribeDrawing, getDrawing, getDrawing);
+}
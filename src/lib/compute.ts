@@ -0,0 +1,219 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  type TaskInput,
+  type TaskName,
+  type TaskOutput,
+  type WorkerRequest,
+  type WorkerResponse,
+  runTaskSync,
+} from "../workers/tasks";
+
+// Heavy view math runs on a small pool of Web Workers so sliders and
+// animations stay responsive. Tasks are registered in `src/workers/tasks.ts`;
+// a view asks for one with `useComputation(task, input)` and keeps showing the
+// previous result until the new one arrives. Cancelling a running task only
+// drops its result: the worker finishes it and moves on to the next job, since
+// restarting a module worker costs far more than most tasks. A cancelled task
+// that keeps running past a timeout is stopped by terminating its worker.
+
+const MAX_WORKERS = 4;
+const CANCELLED_TASK_TIMEOUT_MS = 2000;
+
+type Job = {
+  id: number;
+  task: TaskName;
+  input: unknown;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+  onProgress?: (fraction: number) => void;
+  /** Set once the caller gave up; the worker's answer is then ignored. */
+  cancelled?: boolean;
+};
+
+type PoolWorker = {
+  worker: Worker;
+  job: Job | null;
+  timeout?: ReturnType<typeof setTimeout>;
+};
+
+/** False under static rendering, where tasks run inline instead. */
+export const workersAvailable = typeof window !== "undefined" && typeof Worker !== "undefined";
+
+let nextId = 1;
+const queue: Job[] = [];
+const pool: PoolWorker[] = [];
+let unsettled = 0;
+const settleListeners = new Set<() => void>();
+
+function poolSize() {
+  // Leave a core for the main thread.
+  const cores = navigator.hardwareConcurrency || 2;
+  return Math.max(1, Math.min(MAX_WORKERS, cores - 1));
+}
+
+function spawn(): PoolWorker {
+  const entry: PoolWorker = {
+    worker: new Worker(new URL("../workers/compute.worker.ts", import.meta.url), { type: "module" }),
+    job: null,
+  };
+
+  entry.worker.onmessage = ({ data: message }: MessageEvent<WorkerResponse>) => {
+    const job = entry.job;
+    if (!job || job.id !== message.id) return;
+    if (message.type === "progress") {
+      if (!job.cancelled) job.onProgress?.(message.fraction);
+      return;
+    }
+    entry.job = null;
+    clearTimeout(entry.timeout);
+    // A cancelled job's promise is already rejected, so this is a no-op for it.
+    if (message.type === "result") job.resolve(message.value);
+    else job.reject(new Error(message.message));
+    dispatch();
+  };
+
+  // A worker that failed to load or threw outside a task is not reused.
+  entry.worker.onerror = (event) => {
+    event.preventDefault();
+    const job = entry.job;
+    retire(entry);
+    job?.reject(new Error(event.message || "The compute worker stopped"));
+    dispatch();
+  };
+
+  return entry;
+}
+
+function retire(entry: PoolWorker) {
+  clearTimeout(entry.timeout);
+  entry.worker.terminate();
+  pool.splice(pool.indexOf(entry), 1);
+}
+
+function dispatch() {
+  while (queue.length > 0) {
+    let idle = pool.find((entry) => entry.job === null);
+    if (!idle && pool.length < poolSize()) {
+      idle = spawn();
+      pool.push(idle);
+    }
+    if (!idle) return;
+
+    const job = queue.shift()!;
+    idle.job = job;
+    const request: WorkerRequest = { id: job.id, task: job.task, input: job.input };
+    idle.worker.postMessage(request);
+  }
+}
+
+function cancel(job: Job) {
+  const queued = queue.indexOf(job);
+  const running = pool.find((entry) => entry.job === job);
+  if ((queued < 0 && !running) || job.cancelled) return;
+
+  job.cancelled = true;
+  job.reject(new DOMException("Computation cancelled", "AbortError"));
+  if (queued >= 0) queue.splice(queued, 1);
+  if (running) {
+    running.timeout = setTimeout(() => {
+      if (running.job !== job) return;
+      retire(running);
+      dispatch();
+    }, CANCELLED_TASK_TIMEOUT_MS);
+  }
+}
+
+function track<T>(promise: Promise<T>) {
+  unsettled += 1;
+  const done = () => {
+    unsettled -= 1;
+    if (unsettled > 0) return;
+    settleListeners.forEach((listener) => listener());
+    settleListeners.clear();
+  };
+  promise.then(done, done);
+  return promise;
+}
+
+/** Resolves once no task is queued or running, e.g. before printing what views computed. */
+export function whenComputationsSettle() {
+  if (unsettled === 0) return Promise.resolve();
+  return new Promise<void>((resolve) => settleListeners.add(resolve));
+}
+
+export type ComputeOptions = {
+  /** Aborting rejects with an AbortError at once; the worker's late answer is dropped. */
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+};
+
+/** Runs a task on the pool. Without workers it runs on this thread. */
+export function compute<K extends TaskName>(task: K, input: TaskInput<K>, options: ComputeOptions = {}): Promise<TaskOutput<K>> {
+  const { signal, onProgress } = options;
+  if (signal?.aborted) return Promise.reject(new DOMException("Computation cancelled", "AbortError"));
+  if (!workersAvailable) {
+    return Promise.resolve().then(() => runTaskSync(task, input, { progress: onProgress ?? (() => {}) }));
+  }
+
+  const result = new Promise<TaskOutput<K>>((resolve, reject) => {
+    const job: Job = { id: nextId, task, input, resolve: resolve as (value: unknown) => void, reject, onProgress };
+    nextId += 1;
+    signal?.addEventListener("abort", () => cancel(job), { once: true });
+    queue.push(job);
+    dispatch();
+  });
+  return track(result);
+}
+
+export type Computation<I, T> = {
+  /** The latest finished result; kept while a newer input is computed. */
+  value: T | undefined;
+  /** The input `value` was computed from. */
+  input: I | undefined;
+  /** True while `value` belongs to an older input, or there is none yet. */
+  pending: boolean;
+  /** Progress of the computation in flight, from 0 to 1. */
+  progress: number;
+  error: string | null;
+};
+
+type ComputationState<K extends TaskName> = {
+  value?: TaskOutput<K>;
+  input?: TaskInput<K>;
+  progress: number;
+  error: string | null;
+};
+
+/**
+ * Computes `task(input)` off the main thread whenever `input` changes
+ * identity, cancelling the run it replaces. Memoize the input. Static renders
+ * run no effects, so there the task runs inline during render.
+ */
+export function useComputation<K extends TaskName>(task: K, input: TaskInput<K>): Computation<TaskInput<K>, TaskOutput<K>> {
+  const inline = useMemo(
+    () => (workersAvailable ? undefined : runTaskSync(task, input, { progress: () => {} })),
+    [task, input],
+  );
+  const [state, setState] = useState<ComputationState<K>>({ progress: 0, error: null });
+
+  useEffect(() => {
+    if (!workersAvailable) return;
+    const controller = new AbortController();
+    setState((prev) => ({ ...prev, progress: 0, error: null }));
+
+    compute(task, input, {
+      signal: controller.signal,
+      onProgress: (progress) => setState((prev) => ({ ...prev, progress })),
+    })
+      .then((value) => setState({ value, input, progress: 1, error: null }))
+      .catch((error: unknown) => {
+        if (error instanceof DOMException && error.name === "AbortError") return;
+        setState((prev) => ({ ...prev, error: error instanceof Error ? error.message : "Computation failed" }));
+      });
+
+    return () => controller.abort();
+  }, [task, input]);
+
+  if (!workersAvailable) return { value: inline, input, pending: false, progress: 1, error: null };
+  return { value: state.value, input: state.input, pending: state.input !== input, progress: state.progress, error: state.error };
+}
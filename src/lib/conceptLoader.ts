@@ -0,0 +1,92 @@
+import { type ComponentType, type LazyExoticComponent, lazy } from "react";
+import type { ConceptDefinition } from "./registry";
+
+type ConceptModule = { default: ComponentType };
+
+const RETRY_DELAY_MS = 350;
+
+const loads = new Map<string, Promise<ConceptModule>>();
+const views = new Map<string, LazyExoticComponent<ComponentType>>();
+
+/**
+ * Fetches a concept's chunk once and shares the promise between prefetching
+ * and rendering. A failed request is retried once, then forgotten so a later
+ * attempt starts over instead of replaying the same rejection.
+ */
+export function loadConcept(concept: ConceptDefinition) {
+  let load = loads.get(concept.id);
+  if (!load) {
+    load = concept.load().catch(async () => {
+      await new Promise((resolve) => window.setTimeout(resolve, RETRY_DELAY_MS));
+      return concept.load();
+    });
+    load.catch(() => {
+      if (loads.get(concept.id) === load) loads.delete(concept.id);
+    });
+    loads.set(concept.id, load);
+  }
+  return load;
+}
+
+export function prefetchConcept(concept: ConceptDefinition) {
+  loadConcept(concept).catch(() => {});
+  concept.preload?.().catch(() => {});
+}
+
+/** The lazy component for a concept; stable until `resetConcept` is called. */
+export function conceptView(concept: ConceptDefinition) {
+  let view = views.get(concept.id);
+  if (!view) {
+    view = lazy(() => loadConcept(concept));
+    views.set(concept.id, view);
+  }
+  return view;
+}
+
+/** React.lazy caches rejections, so retrying needs a fresh lazy component. */
+export function resetConcept(id: string) {
+  loads.delete(id);
+  views.delete(id);
+}
+
+function whenIdle(callback: () => void) {
+  if (typeof window.requestIdleCallback === "function") {
+    const handle = window.requestIdleCallback(callback, { timeout: 5000 });
+    return () => window.cancelIdleCallback(handle);
+  }
+  const handle = window.setTimeout(callback, 200);
+  return () => window.clearTimeout(handle);
+}
+
+function prefersSavingData() {
+  const connection = (navigator as Navigator & { connection?: { saveData?: boolean } }).connection;
+  return connection?.saveData === true;
+}
+
+/**
+ * Downloads the remaining chunks one at a time while the main thread is idle,
+ * so switching tabs later is instant. Returns a cancel function.
+ */
+export function prefetchWhenIdle(concepts: readonly ConceptDefinition[]) {
+  if (prefersSavingData()) return () => {};
+
+  const queue = [...concepts];
+  let cancelled = false;
+  let cancelIdle = () => {};
+
+  const next = () => {
+    const concept = queue.shift();
+    if (!concept || cancelled) return;
+    loadConcept(concept)
+      .catch(() => {})
+      .finally(() => {
+        if (!cancelled) cancelIdle = whenIdle(next);
+      });
+  };
+  cancelIdle = whenIdle(next);
+
+  return () => {
+    cancelled = true;
+    cancelIdle();
+  };
+}
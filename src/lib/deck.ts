@@ -0,0 +1,65 @@
+import { type Messages, conceptScenes } from "./i18n";
+import type { ConceptDefinition, Scene } from "./registry";
+import { commitSearch, getSearch, withGlobalParams } from "./urlState";
+
+export type Slide = Scene & {
+  concept: string;
+};
+
+export const PRESENT_KEY = "present";
+export const SLIDE_KEY = "slide";
+
+/**
+ * One slide per named scene, in tab order, titled in the current language. A
+ * concept without scenes still gets a single slide at its default state.
+ */
+export function buildDeck(concepts: readonly ConceptDefinition[], messages: Messages): Slide[] {
+  return concepts.flatMap((concept) =>
+    (conceptScenes(concept, messages) ?? [{ title: concept.label }]).map((scene) => ({ ...scene, concept: concept.id })),
+  );
+}
+
+export function isPresenting(params: URLSearchParams) {
+  return params.get(PRESENT_KEY) === "1";
+}
+
+export function readSlideIndex(params: URLSearchParams, deckLength: number) {
+  const value = Number(params.get(SLIDE_KEY));
+  if (!Number.isInteger(value)) return 0;
+  return Math.max(0, Math.min(deckLength - 1, value));
+}
+
+/** Full query string for a slide: its concept tab plus its named state. */
+export function slideSearch(deck: Slide[], index: number) {
+  const slide = deck[index];
+  const params = new URLSearchParams({ tab: slide.concept, ...slide.params });
+  params.set(PRESENT_KEY, "1");
+  params.set(SLIDE_KEY, String(index));
+  return params;
+}
+
+export function withoutPresentation(params: URLSearchParams) {
+  const next = new URLSearchParams(params);
+  next.delete(PRESENT_KEY);
+  next.delete(SLIDE_KEY);
+  return next;
+}
+
+export function goToSlide(deck: Slide[], index: number) {
+  const clamped = Math.max(0, Math.min(deck.length - 1, index));
+  commitSearch(withGlobalParams(slideSearch(deck, clamped)), "push");
+}
+
+export function startPresentation(deck: Slide[]) {
+  const tab = getSearch().get("tab");
+  const first = deck.findIndex((slide) => slide.concept === tab);
+  goToSlide(deck, Math.max(0, first));
+  document.documentElement.requestFullscreen?.().catch(() => {});
+}
+
+export function stopPresentation() {
+  commitSearch(withoutPresentation(getSearch()), "push");
+  if (document.fullscreenElement) {
+    document.exitFullscreen().catch(() => {});
+  }
+}
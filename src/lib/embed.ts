@@ -0,0 +1,132 @@
+import { pauseAllTransports, playAllTransports } from "./playback";
+import { getConcept } from "./registry";
+import { commitSearch, getSearch, readParam, subscribeSearch, withGlobalParams } from "./urlState";
+
+// `?embed=1` renders a single concept for an iframe. The host page drives it
+// over postMessage and hears back about every state change and size change.
+// Every message in both directions carries `channel: "dl-visualizer"` so it
+// can share the window with other embeds.
+
+export const EMBED_KEY = "embed";
+/** Optional origin of the host page; messages from any other origin are ignored. */
+export const EMBED_ORIGIN_KEY = "origin";
+
+const CHANNEL = "dl-visualizer";
+
+export type EmbedCommand =
+  | { type: "set"; params: Record<string, string | number | boolean | null> }
+  | { type: "play" }
+  | { type: "stop" }
+  | { type: "get" };
+
+export type EmbedEvent =
+  | { type: "ready" | "state"; concept: string; params: Record<string, string> }
+  | { type: "resize"; width: number; height: number };
+
+export function isEmbedded(params: URLSearchParams) {
+  return params.get(EMBED_KEY) === "1";
+}
+
+function formatValue(value: string | number | boolean) {
+  if (typeof value === "boolean") return value ? "1" : "0";
+  return String(value);
+}
+
+/**
+ * The full state of the embedded concept keyed by URL keys: schema defaults
+ * are filled in, so hosts see every parameter rather than only the changed ones.
+ */
+function embedState(params: URLSearchParams) {
+  const tab = params.get("tab") ?? "";
+  const state: Record<string, string> = {};
+  Object.values(getConcept(tab)?.params ?? {}).forEach((spec) => {
+    state[spec.key] = spec.codec.format(readParam(spec, params));
+  });
+  params.forEach((value, key) => {
+    if (key !== EMBED_KEY && key !== EMBED_ORIGIN_KEY) state[key] = value;
+  });
+  return { concept: tab, params: state };
+}
+
+function applyParams(values: Record<string, string | number | boolean | null>) {
+  const current = getSearch();
+  // Switching concepts starts from the new concept's defaults, like a tab change,
+  // keeping page-wide settings such as the theme and language.
+  const switching = typeof values.tab === "string" && values.tab !== current.get("tab");
+  const next = switching ? withGlobalParams(new URLSearchParams()) : current;
+  [EMBED_KEY, EMBED_ORIGIN_KEY].forEach((key) => {
+    const value = current.get(key);
+    if (value !== null) next.set(key, value);
+  });
+  Object.entries(values).forEach(([key, value]) => {
+    if (key === EMBED_KEY || key === EMBED_ORIGIN_KEY) return;
+    if (value === null) next.delete(key);
+    else next.set(key, formatValue(value));
+  });
+  commitSearch(next, "replace");
+}
+
+/**
+ * Wires an embedded window to its host page. Returns a cleanup function;
+ * does nothing outside an iframe.
+ */
+export function initEmbedApi() {
+  if (window.parent === window) return () => {};
+
+  const origin = getSearch().get(EMBED_ORIGIN_KEY);
+  const post = (message: EmbedEvent) => {
+    window.parent.postMessage({ channel: CHANNEL, ...message }, origin ?? "*");
+  };
+  const postState = (type: "ready" | "state") => post({ type, ...embedState(getSearch()) });
+
+  const onMessage = (event: MessageEvent) => {
+    if (event.source !== window.parent) return;
+    if (origin && event.origin !== origin) return;
+    const data = event.data as (EmbedCommand & { channel?: string }) | null;
+    if (data?.channel !== CHANNEL) return;
+    switch (data.type) {
+      case "set":
+        applyParams(data.params ?? {});
+        break;
+      case "play":
+        playAllTransports();
+        break;
+      case "stop":
+        pauseAllTransports();
+        break;
+      case "get":
+        postState("state");
+        break;
+    }
+  };
+  window.addEventListener("message", onMessage);
+
+  let last = "";
+  const unsubscribe = subscribeSearch(() => {
+    const next = getSearch().toString();
+    if (next === last) return;
+    last = next;
+    postState("state");
+  });
+
+  // The body is at least as tall as the iframe, so measure the content
+  // instead; otherwise the frame could grow but never shrink.
+  let lastSize = "";
+  const resizer = new ResizeObserver(() => {
+    const width = Math.ceil(document.body.scrollWidth);
+    const height = Math.ceil(document.getElementById("root")?.getBoundingClientRect().height ?? 0);
+    if (`${width}x${height}` === lastSize) return;
+    lastSize = `${width}x${height}`;
+    post({ type: "resize", width, height });
+  });
+  resizer.observe(document.getElementById("root") ?? document.body);
+
+  last = getSearch().toString();
+  postState("ready");
+
+  return () => {
+    window.removeEventListener("message", onMessage);
+    unsubscribe();
+    resizer.disconnect();
+  };
+}
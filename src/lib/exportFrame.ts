@@ -0,0 +1,247 @@
+// Turns a rendered figure (an <svg> or a tree of styled divs) into a
+// standalone SVG document, then into PNG or WebM. Styles are copied from the
+// live DOM into inline `style` attributes because the exported file has no
+// access to styles.css.
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+/** Interactive chrome that never belongs in an exported picture. */
+const SKIP_SELECTOR = ".controls, [data-export-skip]";
+
+export type CapturedFrame = {
+  svg: string;
+  width: number;
+  height: number;
+  background: string;
+};
+
+let defaultsFrame: HTMLIFrameElement | null = null;
+const defaultStyles = new Map<string, Map<string, string>>();
+
+// Computed styles of a bare element in an unstyled document, so only the
+// properties our CSS actually changed get inlined.
+function defaultsFor(element: Element) {
+  const key = `${element.namespaceURI} ${element.localName}`;
+  let styles = defaultStyles.get(key);
+  if (styles) return styles;
+
+  if (!defaultsFrame) {
+    defaultsFrame = document.createElement("iframe");
+    defaultsFrame.setAttribute("aria-hidden", "true");
+    defaultsFrame.style.cssText = "position: fixed; width: 0; height: 0; border: 0; visibility: hidden;";
+    document.body.append(defaultsFrame);
+  }
+  const doc = defaultsFrame.contentDocument!;
+  const probe = doc.createElementNS(element.namespaceURI, element.localName);
+  const host = element.namespaceURI === SVG_NS && element.localName !== "svg" ? doc.createElementNS(SVG_NS, "svg") : null;
+  if (host) {
+    host.append(probe);
+    doc.body.append(host);
+  } else {
+    doc.body.append(probe);
+  }
+
+  const computed = defaultsFrame.contentWindow!.getComputedStyle(probe);
+  styles = new Map(Array.from(computed, (name) => [name, computed.getPropertyValue(name)]));
+  (host ?? probe).remove();
+  defaultStyles.set(key, styles);
+  return styles;
+}
+
+function inlineStyles(source: Element, target: Element) {
+  const computed = getComputedStyle(source);
+  const defaults = defaultsFor(source);
+  const style = (target as HTMLElement | SVGElement).style;
+  for (const name of Array.from(computed)) {
+    const value = computed.getPropertyValue(name);
+    if (defaults.get(name) !== value) style.setProperty(name, value);
+  }
+  for (let i = 0; i < source.children.length; i += 1) {
+    inlineStyles(source.children[i], target.children[i]);
+  }
+}
+
+function backdropColor(element: Element) {
+  for (let el: Element | null = element; el; el = el.parentElement) {
+    const color = getComputedStyle(el).backgroundColor;
+    if (color !== "transparent" && color !== "rgba(0, 0, 0, 0)") return color;
+  }
+  return "#ffffff";
+}
+
+// Skipped columns (e.g. a controls sidebar) would leave a blank band, so the
+// frame is cropped to the children that remain.
+function visibleBounds(figure: Element) {
+  const box = figure.getBoundingClientRect();
+  const kept = Array.from(figure.children).filter((child) => !child.matches(SKIP_SELECTOR));
+  if (kept.length === figure.children.length) {
+    return { width: box.width, height: box.height };
+  }
+  let right = box.left;
+  let bottom = box.top;
+  for (const child of kept) {
+    const rect = child.getBoundingClientRect();
+    right = Math.max(right, rect.right);
+    bottom = Math.max(bottom, rect.bottom);
+  }
+  return { width: right - box.left, height: bottom - box.top };
+}
+
+export function captureFigure(figure: Element): CapturedFrame {
+  const clone = figure.cloneNode(true) as Element;
+  inlineStyles(figure, clone);
+  // A cloned canvas is blank (heatmaps draw into one); carry its pixels over as an image.
+  const canvases = figure.querySelectorAll("canvas");
+  clone.querySelectorAll("canvas").forEach((copy, i) => {
+    const image = document.createElement("img");
+    image.src = canvases[i].toDataURL();
+    image.style.cssText = copy.style.cssText;
+    copy.replaceWith(image);
+  });
+  clone.querySelectorAll(SKIP_SELECTOR).forEach((el) => el.remove());
+
+  const { width, height } = visibleBounds(figure);
+  const background = backdropColor(figure);
+  let root: Element;
+
+  if (figure.namespaceURI === SVG_NS && figure.localName === "svg") {
+    root = clone;
+  } else {
+    root = document.createElementNS(SVG_NS, "svg");
+    const foreign = document.createElementNS(SVG_NS, "foreignObject");
+    foreign.setAttribute("width", "100%");
+    foreign.setAttribute("height", "100%");
+    (clone as HTMLElement).style.margin = "0";
+    foreign.append(clone);
+    root.append(foreign);
+  }
+
+  root.setAttribute("xmlns", SVG_NS);
+  root.setAttribute("width", String(Math.ceil(width)));
+  root.setAttribute("height", String(Math.ceil(height)));
+  (root as SVGElement).style.setProperty("background-color", background);
+
+  return {
+    svg: new XMLSerializer().serializeToString(root),
+    width: Math.ceil(width),
+    height: Math.ceil(height),
+    background,
+  };
+}
+
+export function svgBlob(frame: CapturedFrame) {
+  return new Blob([`<?xml version="1.0" encoding="UTF-8"?>\n${frame.svg}`], { type: "image/svg+xml" });
+}
+
+/** Draws a captured frame onto `canvas`, resizing it to `scale` × the frame. */
+export async function drawFrame(canvas: HTMLCanvasElement, frame: CapturedFrame, scale: number) {
+  const image = new Image();
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(frame.svg)}`;
+  await image.decode();
+
+  const width = Math.round(frame.width * scale);
+  const height = Math.round(frame.height * scale);
+  if (canvas.width !== width) canvas.width = width;
+  if (canvas.height !== height) canvas.height = height;
+
+  const ctx = canvas.getContext("2d")!;
+  ctx.fillStyle = frame.background;
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(image, 0, 0, width, height);
+}
+
+export async function pngBlob(frame: CapturedFrame, scale: number) {
+  const canvas = document.createElement("canvas");
+  await drawFrame(canvas, frame, scale);
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("The browser could not encode a PNG."))), "image/png");
+  });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** Resolves after React has committed and the browser has painted. */
+export function nextPaint() {
+  return new Promise<void>((resolve) => {
+    requestAnimationFrame(() => requestAnimationFrame(() => resolve()));
+  });
+}
+
+const WEBM_TYPES = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"];
+
+export function webmType() {
+  if (typeof MediaRecorder === "undefined") return null;
+  return WEBM_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+export type RecordOptions = {
+  figure: () => Element | null;
+  frameCount: number;
+  /** How long each frame stays on screen in the video. */
+  frameMs: number;
+  scale: number;
+  /** Puts the view on frame `index`; resolves once it is painted. */
+  showFrame: (index: number) => Promise<void>;
+  onProgress?: (done: number) => void;
+  signal?: AbortSignal;
+};
+
+/**
+ * Steps the view through its frames and records each one for `frameMs`.
+ * Frames are captured one at a time rather than screen-recorded, so a slow
+ * capture never drops or stretches a step.
+ */
+export async function recordWebm(options: RecordOptions) {
+  const mimeType = webmType();
+  if (!mimeType) throw new Error("This browser cannot record WebM video.");
+
+  const canvas = document.createElement("canvas");
+  const capture = async (index: number) => {
+    await options.showFrame(index);
+    const figure = options.figure();
+    if (!figure) throw new Error("The figure disappeared while recording.");
+    await drawFrame(canvas, captureFigure(figure), options.scale);
+  };
+
+  // The first frame sizes the canvas before the stream starts.
+  await capture(0);
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+
+  recorder.start();
+  try {
+    for (let index = 0; index < options.frameCount; index += 1) {
+      if (options.signal?.aborted) break;
+      const started = performance.now();
+      if (index > 0) await capture(index);
+      track.requestFrame();
+      options.onProgress?.(index + 1);
+      const remaining = options.frameMs - (performance.now() - started);
+      if (remaining > 0) await new Promise((resolve) => window.setTimeout(resolve, remaining));
+    }
+  } finally {
+    recorder.stop();
+    await stopped;
+    stream.getTracks().forEach((t) => t.stop());
+  }
+
+  if (options.signal?.aborted) {
+    throw new DOMException("Recording cancelled", "AbortError");
+  }
+  return new Blob(chunks, { type: "video/webm" });
+}
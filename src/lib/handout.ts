@@ -0,0 +1,70 @@
+import type { Slide } from "./deck";
+import { conceptScenes, messagesFor } from "./i18n";
+import { type ConceptDefinition, conceptSettings, getConcept } from "./registry";
+import { commitSearch, getSearch, readParam, withGlobalParams } from "./urlState";
+
+// `?handout=tab` lays out the active concept, `?handout=deck` every slide of
+// the deck (the imported lesson, if any), as one printable page: each state
+// rendered static with its formulas and narration. The browser's print
+// dialog turns it into a PDF.
+
+export const HANDOUT_KEY = "handout";
+
+export type HandoutScope = "tab" | "deck";
+
+export function readHandout(params: URLSearchParams): HandoutScope | null {
+  const value = params.get(HANDOUT_KEY);
+  return value === "tab" || value === "deck" ? value : null;
+}
+
+/**
+ * What a handout shows. For one concept that is the view as currently set
+ * up, at the frame on screen, followed by the concept's named scenes.
+ */
+export function handoutSlides(scope: HandoutScope, deck: Slide[], concept: ConceptDefinition, search: URLSearchParams): Slide[] {
+  if (scope === "deck") return deck;
+  const params = conceptSettings(concept, search);
+  Object.values(concept.params ?? {}).forEach((spec) => {
+    if (spec.transient) params.set(spec.key, spec.codec.format(readParam(spec, search)));
+  });
+  const current: Slide = {
+    concept: concept.id,
+    title: "Current settings",
+    params: Object.fromEntries(params),
+  };
+  return [current, ...(conceptScenes(concept, messagesFor(search)) ?? []).map((scene) => ({ ...scene, concept: concept.id }))];
+}
+
+/**
+ * A slide's state plus the page's global settings, such as the language, over
+ * the concept's print frames. Paper is white, so every figure renders in the
+ * light theme whatever the screen uses.
+ */
+export function handoutParams(slide: Slide) {
+  const printed = getConcept(slide.concept)?.printParams;
+  const params = withGlobalParams(new URLSearchParams({ tab: slide.concept, ...printed, ...slide.params }));
+  params.set("theme", "light");
+  return params;
+}
+
+export function handoutTitle(scope: HandoutScope, concept: ConceptDefinition, lessonTitle?: string) {
+  if (scope === "tab") return concept.label;
+  return lessonTitle ?? "Deep Learning Concept Visualizer";
+}
+
+export function openHandout(scope: HandoutScope) {
+  const next = getSearch();
+  next.set(HANDOUT_KEY, scope);
+  commitSearch(next, "push");
+}
+
+export function closeHandout() {
+  const next = getSearch();
+  next.delete(HANDOUT_KEY);
+  commitSearch(next, "push");
+}
+
+/** Concepts a handout renders, so their chunks and data can load before printing. */
+export function handoutConcepts(slides: Slide[]) {
+  return [...new Set(slides.map((slide) => slide.concept))].flatMap((id) => getConcept(id) ?? []);
+}
@@ -0,0 +1,214 @@
+import { Fragment, type ReactNode, createElement, useLayoutEffect } from "react";
+import { en } from "../locales/en";
+import { es } from "../locales/es";
+import type { ConceptDefinition, Scene, SpeakerNotes } from "./registry";
+import type { Tour } from "./tour";
+import { enumParam, param, readParam, useUrlParam } from "./urlState";
+
+// Narrative text (explain cards, view introductions, scene and tour text,
+// stage descriptions, plain-English glosses, formula captions), the page
+// header and its buttons, and what screen readers hear (figure labels, status
+// messages, data table summaries) come from a message catalog per locale in
+// src/locales/. View headings and control labels stay in English. `?lang=` is
+// global like the theme, so it follows every tab, presentation and audience
+// window.
+
+export type LlmFlowStep = {
+  title: string;
+  text: string;
+  detail: string;
+  explain: string;
+};
+
+type BuiltInConcept = "pca" | "svd" | "cnn" | "rnn" | "llm" | "llmflow" | "relu" | "gd";
+
+export type SceneText = Pick<Scene, "title" | "notes">;
+
+export type TourText = {
+  title: string;
+  steps: Array<{ title: string; say: string }>;
+};
+
+export type Messages = {
+  /** Explain card and speaker notes of the built-in concepts, by concept id. */
+  notes: Record<"svd" | "cnn" | "rnn" | "llm" | "llmflow", SpeakerNotes>;
+  /** The paragraph under each view's heading; the LLM flow has its own `intro`. */
+  intros: Record<Exclude<BuiltInConcept, "llmflow">, string>;
+  /** Scene titles and notes, in the order the concept lists its scenes. */
+  scenes: Record<BuiltInConcept, SceneText[]>;
+  /** Tour titles and callouts by tour id, steps in order. */
+  tours: Record<"energy-sweep" | "sgd-vs-adam", TourText>;
+  /** The page header and the buttons next to the tabs. */
+  app: {
+    intro: string;
+    concepts: string;
+    present: string;
+    audienceWindow: string;
+    handout: string;
+    handoutTitle: string;
+    pauseAnimations: string;
+    resumeAnimations: string;
+    rememberSettings: string;
+    rememberSettingsTitle: string;
+    resetToDefaults: string;
+    resetTitle: string;
+  };
+  /** The disclosure of a view's data table, e.g. "Data: Loss per step". */
+  dataTable: string;
+  llmFlow: {
+    intro: string;
+    steps: LlmFlowStep[];
+    currentStage: string;
+    whyItMatters: string;
+    plainEnglish: string;
+    exampleHeading: string;
+    examplePrompt: string;
+    atStage: string;
+    modelIsDoing: string;
+    exampleOutput: string;
+    figure: string;
+  };
+  llm: {
+    roles: Record<"subject" | "verb" | "object" | "connector" | "prep" | "adverb", string>;
+    topics: Record<"agent" | "analysis" | "link" | "writing" | "target" | "time", string>;
+    currentWord: string;
+    grammarRole: string;
+    syntaxLookedAt: string;
+    semanticLookedAt: string;
+    sharedTheme: string;
+    futureCells: string;
+    mergedTarget: string;
+    trueNextWord: string;
+    predictedNext: string;
+    match: string;
+    yes: string;
+    no: string;
+    outsideCandidates: string;
+    figure: string;
+    heatmap: string;
+    rowsCaption: string;
+    rowsSummary: string;
+    probsCaption: string;
+    probsSummary: string;
+    status: string;
+  };
+  relu: {
+    formulas: Record<"relu" | "leaky" | "elu" | "sigmoid", { formula: string; dFormula: string }>;
+    gradients: string;
+    figure: string;
+    neurons: string;
+    valuesCaption: string;
+    valuesSummary: string;
+    status: string;
+  };
+  pca: {
+    eigenHelp: string;
+    figure: string;
+    scatter: string;
+    meanMinus: string;
+    mean: string;
+    meanPlus: string;
+    original: string;
+    reconstruction: string;
+    presetsCaption: string;
+    presetsSummary: string;
+    scatterCaption: string;
+    status: string;
+  };
+  svd: {
+    figure: string;
+    original: string;
+    reconstruction: string;
+    residual: string;
+    component: string;
+    valuesCaption: string;
+    valuesSummary: string;
+    status: string;
+  };
+  cnn: {
+    figure: string;
+    input: string;
+    featureMap: string;
+    pooled: string;
+    unitsKept: string;
+    vectorCaption: string;
+    vectorSummary: string;
+    status: string;
+  };
+  rnn: {
+    figure: string;
+    hiddenState: string;
+    probsCaption: string;
+    probsSummary: string;
+    influenceCaption: string;
+    status: string;
+  };
+  gd: {
+    figure: string;
+    lossChart: string;
+    lossCaption: string;
+    lossSummary: string;
+    status: string;
+  };
+};
+
+export const LOCALES = {
+  en: { label: "English", messages: en },
+  es: { label: "Español", messages: es },
+};
+
+export type LocaleId = keyof typeof LOCALES;
+
+export const LOCALE_IDS = Object.keys(LOCALES) as LocaleId[];
+
+export const LOCALE_PARAMS = {
+  locale: param("lang", enumParam(LOCALE_IDS), "en" as LocaleId, { global: true }),
+};
+
+/** Fills `{name}` placeholders in a catalog string. */
+export function format(template: string, values: Record<string, string | number>) {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in values ? String(values[name]) : match));
+}
+
+export function messagesFor(params: URLSearchParams): Messages {
+  return LOCALES[readParam(LOCALE_PARAMS.locale, params)].messages;
+}
+
+export function useMessages(): Messages {
+  const [locale] = useUrlParam(LOCALE_PARAMS.locale);
+  return LOCALES[locale].messages;
+}
+
+/** A concept's notes in the current language; concepts registered from outside keep their own. */
+export function conceptNotes(concept: ConceptDefinition, messages: Messages): SpeakerNotes | undefined {
+  return messages.notes[concept.id as keyof Messages["notes"]] ?? concept.notes;
+}
+
+/** A concept's scenes with titles and notes in the current language. */
+export function conceptScenes(concept: ConceptDefinition, messages: Messages): Scene[] | undefined {
+  const texts: SceneText[] | undefined = messages.scenes[concept.id as BuiltInConcept];
+  return concept.scenes?.map((scene, i) => ({ ...scene, ...texts?.[i] }));
+}
+
+/** A tour with its title and callouts in the current language. */
+export function localizeTour(tour: Tour, messages: Messages): Tour {
+  const text: TourText | undefined = messages.tours[tour.id as keyof Messages["tours"]];
+  if (!text) return tour;
+  return { ...tour, title: text.title, steps: tour.steps.map((step, i) => ({ ...step, ...text.steps[i] })) };
+}
+
+/** Fills `{name}` placeholders with elements, e.g. a colored series name inside a sentence. */
+export function formatNodes(template: string, values: Record<string, ReactNode>): ReactNode[] {
+  return template.split(/(\{\w+\})/).map((part, i) => {
+    const name = part.slice(1, -1);
+    return part.startsWith("{") && name in values ? createElement(Fragment, { key: i }, values[name]) : part;
+  });
+}
+
+/** Keeps `<html lang>` in step, so screen readers pick the right voice. */
+export function useDocumentLanguage() {
+  const [locale] = useUrlParam(LOCALE_PARAMS.locale);
+  useLayoutEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+}
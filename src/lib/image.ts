@@ -0,0 +1,77 @@
+import { type Matrix, fromFunction } from "./math";
+
+// Turning a user's picture into a matrix a view can decompose: decode it,
+// reduce it to grayscale intensities in [0, 1], and resample it to a square.
+
+/** Larger pictures are scaled down while decoding; no view resamples above this. */
+const MAX_DECODE_SIDE = 512;
+
+/**
+ * Decodes an image file or clipboard blob into grayscale intensities (Rec. 709
+ * luma of the sRGB values). Transparent areas count as black. Rejects with a
+ * readable message when the blob is not an image the browser can decode.
+ */
+export async function readGrayscaleImage(blob: Blob): Promise<Matrix> {
+  if (!blob.type.startsWith("image/")) {
+    throw new Error(blob.type ? `${blob.type} is not an image` : "That is not an image");
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(blob);
+  } catch {
+    throw new Error("The browser could not decode this image");
+  }
+
+  const scale = Math.min(1, MAX_DECODE_SIDE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas is not available");
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  return fromFunction(height, width, (r, c) => {
+    const i = (r * width + c) * 4;
+    const alpha = data[i + 3] / 255;
+    return ((0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]) / 255) * alpha;
+  });
+}
+
+// For each output index, the source indices it covers and how much of each:
+// box filtering, so shrinking averages and enlarging repeats.
+function coverage(sourceLength: number, outputLength: number) {
+  const step = sourceLength / outputLength;
+  return Array.from({ length: outputLength }, (_, i) => {
+    const start = i * step;
+    const end = start + step;
+    const parts: Array<{ index: number; weight: number }> = [];
+    for (let j = Math.floor(start); j < Math.min(sourceLength, Math.ceil(end)); j += 1) {
+      const weight = Math.min(end, j + 1) - Math.max(start, j);
+      if (weight > 0) parts.push({ index: j, weight: weight / step });
+    }
+    return parts;
+  });
+}
+
+/** Centre-crops `image` to a square and box-resamples it to size × size. */
+export function resampleSquare(image: Matrix, size: number): Matrix {
+  const side = Math.min(image.rows, image.cols);
+  const top = Math.floor((image.rows - side) / 2);
+  const left = Math.floor((image.cols - side) / 2);
+  const weights = coverage(side, size);
+
+  return fromFunction(size, size, (r, c) => {
+    let sum = 0;
+    for (const row of weights[r]) {
+      for (const col of weights[c]) {
+        sum += row.weight * col.weight * image.data[(top + row.index) * image.cols + left + col.index];
+      }
+    }
+    return sum;
+  });
+}
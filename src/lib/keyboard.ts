@@ -0,0 +1,70 @@
+import type { KeyboardEvent } from "react";
+
+// Focusable figures answer the same keys as a slider, so a keyboard user can
+// scrub an animation or walk through a selection without finding the control.
+
+/** Anything with an ordered position: a playback transport or a selection. */
+export type Steppable = {
+  first: number;
+  last: number;
+  step: (delta: number) => void;
+  seek: (position: number) => void;
+  toggle?: () => void;
+};
+
+/** Value for `aria-keyshortcuts` on a figure wired to `stepperKeys`. */
+export const STEPPER_SHORTCUTS = "ArrowLeft ArrowRight ArrowUp ArrowDown Home End PageUp PageDown Space";
+
+const PAGE = 5;
+
+/**
+ * Left/Down step back, Right/Up step forward, PageUp/PageDown jump five,
+ * Home/End go to the ends and Space plays or pauses. Handled keys stop here,
+ * so they never also change the presentation slide.
+ */
+export function stepperKeys(target: Steppable) {
+  return (event: KeyboardEvent) => {
+    if (event.altKey || event.ctrlKey || event.metaKey || event.target !== event.currentTarget) return;
+    switch (event.key) {
+      case "ArrowLeft":
+      case "ArrowDown":
+        target.step(-1);
+        break;
+      case "ArrowRight":
+      case "ArrowUp":
+        target.step(1);
+        break;
+      case "PageDown":
+        target.step(-PAGE);
+        break;
+      case "PageUp":
+        target.step(PAGE);
+        break;
+      case "Home":
+        target.seek(target.first);
+        break;
+      case "End":
+        target.seek(target.last);
+        break;
+      case " ":
+        if (!target.toggle) return;
+        target.toggle();
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+  };
+}
+
+/** Props that make a figure focusable and keyboard-operable. */
+export function stepperFigure(label: string, target: Steppable) {
+  return {
+    tabIndex: 0,
+    role: "group",
+    "aria-label": label,
+    "aria-keyshortcuts": STEPPER_SHORTCUTS,
+    onKeyDown: stepperKeys(target),
+  };
+}
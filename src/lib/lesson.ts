@@ -0,0 +1,199 @@
+import { useSyncExternalStore } from "react";
+import type { Slide } from "./deck";
+import { conceptNotes, messagesFor } from "./i18n";
+import { conceptSettings, getConcept } from "./registry";
+
+// A lesson is a shareable JSON file: an ordered list of concept states with
+// narration, authored in the app and played back through the presentation
+// deck. Instructors write or edit them without touching code.
+//
+//   {
+//     "format": "dl-visualizer-lesson",
+//     "version": 1,
+//     "title": "Optimizers in ten minutes",
+//     "steps": [
+//       { "concept": "gd", "title": "Too large a step", "params": { "lr": "0.7" },
+//         "narration": ["Watch SGD zig-zag across the valley."] }
+//     ]
+//   }
+
+export const LESSON_FORMAT = "dl-visualizer-lesson";
+export const LESSON_VERSION = 1;
+
+export type LessonStep = {
+  /** Concept id, as in `?tab=`. */
+  concept: string;
+  title: string;
+  /** Raw values keyed by the concept's URL keys, as in a shared link. */
+  params?: Record<string, string>;
+  /** Paragraphs read or shown alongside the step. */
+  narration?: string[];
+};
+
+export type Lesson = {
+  format: typeof LESSON_FORMAT;
+  version: typeof LESSON_VERSION;
+  title: string;
+  steps: LessonStep[];
+};
+
+// Survives reloads and is copied into audience windows opened from this one.
+const ACTIVE_SESSION_KEY = "dl-visualizer:lesson";
+const DRAFT_SESSION_KEY = "dl-visualizer:lesson-draft";
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseStep(value: unknown, index: number): LessonStep {
+  const where = `Step ${index + 1}`;
+  if (!isRecord(value)) throw new Error(`${where} is not an object.`);
+  const { concept, title, params, narration } = value;
+  if (typeof concept !== "string" || !getConcept(concept)) {
+    throw new Error(`${where} names an unknown concept "${String(concept)}".`);
+  }
+  const step: LessonStep = { concept, title: typeof title === "string" && title ? title : getConcept(concept)!.label };
+  if (params !== undefined) {
+    if (!isRecord(params)) throw new Error(`${where}: "params" must be an object.`);
+    step.params = {};
+    for (const [key, raw] of Object.entries(params)) {
+      if (!["string", "number", "boolean"].includes(typeof raw)) {
+        throw new Error(`${where}: parameter "${key}" must be a string, number or boolean.`);
+      }
+      step.params[key] = typeof raw === "boolean" ? (raw ? "1" : "0") : String(raw);
+    }
+  }
+  if (narration !== undefined) {
+    const lines = typeof narration === "string" ? [narration] : narration;
+    if (!Array.isArray(lines) || lines.some((line) => typeof line !== "string")) {
+      throw new Error(`${where}: "narration" must be a string or a list of strings.`);
+    }
+    step.narration = lines as string[];
+  }
+  return step;
+}
+
+/** Validates a lesson file. Throws an Error whose message is shown to the user. */
+export function parseLesson(text: string): Lesson {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (!isRecord(data) || data.format !== LESSON_FORMAT) {
+    throw new Error(`Not a lesson file (expected "format": "${LESSON_FORMAT}").`);
+  }
+  if (data.version !== LESSON_VERSION) {
+    throw new Error(`Unsupported lesson version ${String(data.version)}; this app reads version ${LESSON_VERSION}.`);
+  }
+  if (!Array.isArray(data.steps) || data.steps.length === 0) {
+    throw new Error("The lesson has no steps.");
+  }
+  return {
+    format: LESSON_FORMAT,
+    version: LESSON_VERSION,
+    title: typeof data.title === "string" && data.title ? data.title : "Untitled lesson",
+    steps: data.steps.map(parseStep),
+  };
+}
+
+export function serializeLesson(lesson: Lesson) {
+  return `${JSON.stringify(lesson, null, 2)}\n`;
+}
+
+export function lessonDeck(lesson: Lesson): Slide[] {
+  return lesson.steps.map((step) => ({
+    concept: step.concept,
+    title: step.title,
+    params: step.params,
+    notes: step.narration,
+  }));
+}
+
+/**
+ * The active tab's shareable state as a lesson step. Narration starts from
+ * the concept's explain-card text so authors edit rather than write from scratch.
+ */
+export function captureStep(search: URLSearchParams): LessonStep | null {
+  const concept = getConcept(search.get("tab"));
+  if (!concept) return null;
+  const params = Object.fromEntries(conceptSettings(concept, search));
+  const notes = conceptNotes(concept, messagesFor(search));
+  return {
+    concept: concept.id,
+    title: concept.label,
+    ...(Object.keys(params).length > 0 && { params }),
+    ...(notes && { narration: [notes.heading, ...notes.points] }),
+  };
+}
+
+export function newLesson(steps: LessonStep[], title = "Untitled lesson"): Lesson {
+  return { format: LESSON_FORMAT, version: LESSON_VERSION, title, steps };
+}
+
+// ─── Session state ─────────────────────────────────────────────────────────
+
+function sessionStore<T>(key: string, parse: (raw: string) => T) {
+  const listeners = new Set<() => void>();
+  let cached: { raw: string | null; value: T | null } = { raw: null, value: null };
+  // Stands in for sessionStorage once it fails (privacy modes, sandboxed
+  // iframes, a full quota): the lesson then lasts until the page is reloaded.
+  let memory: string | null = null;
+  let blocked = false;
+
+  const read = () => {
+    if (!blocked) {
+      try {
+        return window.sessionStorage.getItem(key);
+      } catch {
+        blocked = true;
+      }
+    }
+    return memory;
+  };
+
+  const get = () => {
+    const raw = read();
+    if (raw !== cached.raw) {
+      let value: T | null = null;
+      try {
+        value = raw === null ? null : parse(raw);
+      } catch {
+        // A stale or hand-edited entry is dropped rather than breaking the app.
+      }
+      cached = { raw, value };
+    }
+    return cached.value;
+  };
+
+  const set = (value: T | null) => {
+    memory = value === null ? null : JSON.stringify(value);
+    if (!blocked) {
+      try {
+        if (memory === null) window.sessionStorage.removeItem(key);
+        else window.sessionStorage.setItem(key, memory);
+      } catch {
+        blocked = true;
+      }
+    }
+    listeners.forEach((listener) => listener());
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const use = () => useSyncExternalStore(subscribe, get, () => null);
+
+  return { get, set, use };
+}
+
+/** The imported lesson the deck plays instead of the built-in scenes. */
+export const activeLesson = sessionStore(ACTIVE_SESSION_KEY, parseLesson);
+
+/** Steps captured with "Add step", waiting to be exported. */
+export const draftLesson = sessionStore(DRAFT_SESSION_KEY, parseLesson);
@@ -0,0 +1,168 @@
+import { describe, expect, test } from "bun:test";
+import { conv2dSame, fromRows, leadingShare, matmul, maxPool, softmax, sumOfOuterProducts, svd, toRows } from "./math";
+
+// Float32 storage keeps about seven significant digits.
+const DIGITS = 5;
+
+function expectClose(actual: ArrayLike<number>, expected: ArrayLike<number>) {
+  expect(actual.length).toBe(expected.length);
+  for (let i = 0; i < expected.length; i += 1) expect(actual[i]).toBeCloseTo(expected[i], DIGITS);
+}
+
+describe("softmax", () => {
+  test("sums to one and keeps the order of the logits", () => {
+    const p = softmax([1, 3, 2]);
+    expect(p.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 12);
+    expect(p[1]).toBeGreaterThan(p[2]);
+    expect(p[2]).toBeGreaterThan(p[0]);
+    expectClose(p, [0.09003057, 0.66524096, 0.24472847]);
+  });
+
+  test("divides the logits by the temperature", () => {
+    expectClose(softmax([2, 4, 6], 2), softmax([1, 2, 3]));
+  });
+
+  test("sharpens below a temperature of 1 and flattens above it", () => {
+    const logits = [1, 2, 3];
+    expect(softmax(logits, 0.5)[2]).toBeGreaterThan(softmax(logits)[2]);
+    expect(softmax(logits, 4)[2]).toBeLessThan(softmax(logits)[2]);
+    expectClose(softmax(logits, 1e6), [1 / 3, 1 / 3, 1 / 3]);
+  });
+
+  test("does not overflow on large logits", () => {
+    expectClose(softmax([1000, 1000]), [0.5, 0.5]);
+  });
+
+  test("throws when the temperature is not positive", () => {
+    expect(() => softmax([1, 2], 0)).toThrow("temperature must be positive");
+    expect(() => softmax([1, 2], -1)).toThrow("temperature must be positive");
+    expect(() => softmax([1, 2], Number.NaN)).toThrow("temperature must be positive");
+  });
+});
+
+describe("matmul", () => {
+  test("multiplies rows by columns", () => {
+    const a = fromRows([
+      [1, 2, 3],
+      [4, 5, 6],
+    ]);
+    const b = fromRows([
+      [7, 8],
+      [9, 10],
+      [11, 12],
+    ]);
+    const product = matmul(a, b);
+    expect([product.rows, product.cols]).toEqual([2, 2]);
+    expect(toRows(product)).toEqual([
+      [58, 64],
+      [139, 154],
+    ]);
+  });
+
+  test("rejects mismatched shapes", () => {
+    expect(() => matmul(fromRows([[1, 2]]), fromRows([[1, 2]]))).toThrow("matmul: 1×2 by 1×2");
+  });
+});
+
+describe("conv2dSame", () => {
+  const image = fromRows([
+    [1, 2, 3],
+    [4, 5, 6],
+    [7, 8, 9],
+  ]);
+
+  test("keeps the input size and pads with zeros", () => {
+    const ones = fromRows([
+      [1, 1, 1],
+      [1, 1, 1],
+      [1, 1, 1],
+    ]);
+    expect(toRows(conv2dSame(image, ones))).toEqual([
+      [12, 21, 16],
+      [27, 45, 33],
+      [24, 39, 28],
+    ]);
+  });
+
+  test("is cross-correlation: the kernel is not flipped", () => {
+    // Picks each pixel's right-hand neighbour.
+    const shiftLeft = fromRows([
+      [0, 0, 0],
+      [0, 0, 1],
+      [0, 0, 0],
+    ]);
+    expect(toRows(conv2dSame(image, shiftLeft))).toEqual([
+      [2, 3, 0],
+      [5, 6, 0],
+      [8, 9, 0],
+    ]);
+  });
+});
+
+describe("maxPool", () => {
+  test("takes the maximum of each window", () => {
+    const m = fromRows([
+      [1, 5, 2, 0],
+      [3, 4, -1, 7],
+      [0, 0, -3, -2],
+      [9, 1, -4, -5],
+    ]);
+    expect(toRows(maxPool(m))).toEqual([
+      [5, 7],
+      [9, -2],
+    ]);
+  });
+
+  test("drops a ragged last row and column", () => {
+    const m = fromRows([
+      [1, 2, 3],
+      [4, 5, 6],
+      [7, 8, 9],
+    ]);
+    expect(toRows(maxPool(m))).toEqual([[5]]);
+  });
+});
+
+describe("svd", () => {
+  test("orders singular values from largest to smallest", () => {
+    // svd-js itself returns these as 1, 3, 2.
+    const { u, s, v } = svd(
+      fromRows([
+        [1, 0, 0],
+        [0, 3, 0],
+        [0, 0, 2],
+      ]),
+    );
+    expectClose(s, [3, 2, 1]);
+    expectClose(sumOfOuterProducts(u, s, v, 0, 1).data, [0, 0, 0, 0, 3, 0, 0, 0, 0]);
+  });
+
+  test("reconstructs the matrix from all components", () => {
+    const rows = [
+      [1, 2],
+      [3, 4],
+      [5, 6],
+    ];
+    const { u, s, v } = svd(fromRows(rows));
+    expect(s[0]).toBeGreaterThanOrEqual(s[1]);
+    expectClose(sumOfOuterProducts(u, s, v, 0, s.length).data, rows.flat());
+  });
+});
+
+describe("leadingShare", () => {
+  test("is the share of the total in the first k values", () => {
+    expect(leadingShare([3, 1], 1)).toBeCloseTo(0.75, 12);
+    expect(leadingShare([3, 1], 2)).toBe(1);
+    expect(leadingShare([3, 1], 5)).toBe(1);
+    expect(leadingShare([3, 1], 0)).toBe(0);
+  });
+
+  test("gives the energy kept by a rank-k SVD from squared singular values", () => {
+    const energy = [3, 2, 1].map((sv) => sv * sv);
+    expect(leadingShare(energy, 2)).toBeCloseTo(13 / 14, 12);
+  });
+
+  test("is zero when every value is zero", () => {
+    expect(leadingShare([0, 0, 0], 2)).toBe(0);
+  });
+});
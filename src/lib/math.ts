@@ -0,0 +1,255 @@
+import { SVD } from "svd-js";
+
+// Small dense linear algebra and neural-network building blocks shared by the
+// views and the precompute scripts, so a number shown in a demo is computed
+// the same way everywhere. Matrices are row-major Float32Arrays; vectors are
+// any array-like of numbers, and scalar results are accumulated in doubles.
+
+/** Guards divisions by a sum or a maximum that may be zero. */
+export const EPSILON = 1e-9;
+
+export type Vector = ArrayLike<number>;
+
+export type Matrix = {
+  readonly rows: number;
+  readonly cols: number;
+  /** Row-major: entry (r, c) is at `r * cols + c`. */
+  readonly data: Float32Array;
+};
+
+// ─── Construction ──────────────────────────────────────────────────────────
+
+export function zeros(rows: number, cols: number): Matrix {
+  return { rows, cols, data: new Float32Array(rows * cols) };
+}
+
+export function fromFunction(rows: number, cols: number, entry: (r: number, c: number) => number): Matrix {
+  const out = zeros(rows, cols);
+  for (let r = 0; r < rows; r += 1) {
+    for (let c = 0; c < cols; c += 1) out.data[r * cols + c] = entry(r, c);
+  }
+  return out;
+}
+
+export function fromRows(rows: readonly Vector[]): Matrix {
+  const cols = rows[0]?.length ?? 0;
+  if (rows.some((row) => row.length !== cols)) {
+    throw new Error("fromRows: rows have different lengths");
+  }
+  return fromFunction(rows.length, cols, (r, c) => rows[r][c]);
+}
+
+/** A flat row-major vector, such as a flattened image, viewed as rows × cols. */
+export function reshape(values: Vector, rows: number, cols: number): Matrix {
+  if (values.length !== rows * cols) throw new Error(`reshape: ${values.length} values into ${rows}×${cols}`);
+  return fromFunction(rows, cols, (r, c) => values[r * cols + c]);
+}
+
+/** Nested arrays, e.g. for rendering a grid or calling a library that wants them. */
+export function toRows(m: Matrix): number[][] {
+  return Array.from({ length: m.rows }, (_, r) => Array.from(m.data.subarray(r * m.cols, (r + 1) * m.cols)));
+}
+
+export function at(m: Matrix, r: number, c: number) {
+  return m.data[r * m.cols + c];
+}
+
+export function column(m: Matrix, c: number): Float32Array {
+  const out = new Float32Array(m.rows);
+  for (let r = 0; r < m.rows; r += 1) out[r] = m.data[r * m.cols + c];
+  return out;
+}
+
+export function map(m: Matrix, f: (value: number, r: number, c: number) => number): Matrix {
+  return fromFunction(m.rows, m.cols, (r, c) => f(m.data[r * m.cols + c], r, c));
+}
+
+export function transpose(m: Matrix): Matrix {
+  return fromFunction(m.cols, m.rows, (r, c) => at(m, c, r));
+}
+
+// ─── Products ──────────────────────────────────────────────────────────────
+
+export function dot(a: Vector, b: Vector) {
+  if (a.length !== b.length) throw new Error(`dot: lengths ${a.length} and ${b.length} differ`);
+  let sum = 0;
+  for (let i = 0; i < a.length; i += 1) sum += a[i] * b[i];
+  return sum;
+}
+
+export function matmul(a: Matrix, b: Matrix): Matrix {
+  if (a.cols !== b.rows) throw new Error(`matmul: ${a.rows}×${a.cols} by ${b.rows}×${b.cols}`);
+  const out = zeros(a.rows, b.cols);
+  for (let r = 0; r < a.rows; r += 1) {
+    for (let c = 0; c < b.cols; c += 1) {
+      let sum = 0;
+      for (let i = 0; i < a.cols; i += 1) sum += a.data[r * a.cols + i] * b.data[i * b.cols + c];
+      out.data[r * b.cols + c] = sum;
+    }
+  }
+  return out;
+}
+
+/** `m · v`, as plain numbers. */
+export function matVec(m: Matrix, v: Vector): number[] {
+  if (m.cols !== v.length) throw new Error(`matVec: ${m.rows}×${m.cols} by a vector of ${v.length}`);
+  return Array.from({ length: m.rows }, (_, r) => {
+    let sum = 0;
+    for (let c = 0; c < m.cols; c += 1) sum += m.data[r * m.cols + c] * v[c];
+    return sum;
+  });
+}
+
+/**
+ * Σ sᵢ uᵢ vᵢᵀ over components `from` ≤ i < `to`, where uᵢ and vᵢ are columns
+ * of `u` and `v`: a rank-k reconstruction from an SVD, or one component of it.
+ */
+export function sumOfOuterProducts(u: Matrix, s: Vector, v: Matrix, from: number, to: number): Matrix {
+  const end = Math.min(to, s.length, u.cols, v.cols);
+  return fromFunction(u.rows, v.rows, (r, c) => {
+    let sum = 0;
+    for (let i = Math.max(0, from); i < end; i += 1) sum += s[i] * at(u, r, i) * at(v, c, i);
+    return sum;
+  });
+}
+
+/**
+ * A = U · diag(s) · Vᵀ, with the singular values in descending order and the
+ * columns of U and V permuted to match. svd-js returns them in whatever order
+ * its iteration converged to, so "the first k components" would otherwise not
+ * be the k strongest. A must have at least as many rows as columns. Throws
+ * when the iteration breaks down, as it does on some constant matrices.
+ */
+export function svd(a: Matrix): { u: Matrix; s: number[]; v: Matrix } {
+  const { u, q, v } = SVD(toRows(a));
+  if (!q.every(Number.isFinite)) throw new Error("svd: the iteration did not converge");
+  const order = q.map((_, i) => i).sort((i, j) => q[j] - q[i]);
+  return {
+    u: fromFunction(u.length, order.length, (r, c) => u[r][order[c]]),
+    s: order.map((i) => q[i]),
+    v: fromFunction(v.length, order.length, (r, c) => v[r][order[c]]),
+  };
+}
+
+// ─── Norms and statistics ──────────────────────────────────────────────────
+
+export function squaredDistance(a: Vector, b: Vector) {
+  if (a.length !== b.length) throw new Error(`squaredDistance: lengths ${a.length} and ${b.length} differ`);
+  let sum = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    const d = a[i] - b[i];
+    sum += d * d;
+  }
+  return sum;
+}
+
+export function distance(a: Vector, b: Vector) {
+  return Math.sqrt(squaredDistance(a, b));
+}
+
+export function norm(a: Vector) {
+  return Math.sqrt(dot(a, a));
+}
+
+export function sum(values: Vector) {
+  let total = 0;
+  for (let i = 0; i < values.length; i += 1) total += values[i];
+  return total;
+}
+
+/** Index of the largest value; the first one wins a tie. */
+export function argmax(values: Vector) {
+  let best = 0;
+  for (let i = 1; i < values.length; i += 1) if (values[i] > values[best]) best = i;
+  return best;
+}
+
+/** Largest value, but never below `EPSILON`, so it can be used as a divisor. */
+export function maxValue(values: Vector) {
+  let max = EPSILON;
+  for (let i = 0; i < values.length; i += 1) max = Math.max(max, values[i]);
+  return max;
+}
+
+/** Largest magnitude, but never below `EPSILON`. */
+export function maxAbs(values: Vector) {
+  let max = EPSILON;
+  for (let i = 0; i < values.length; i += 1) max = Math.max(max, Math.abs(values[i]));
+  return max;
+}
+
+/** Sample standard deviation (n − 1 in the denominator). */
+export function standardDeviation(values: Vector) {
+  const n = values.length;
+  if (n <= 1) return 0;
+  const mean = sum(values) / n;
+  let acc = 0;
+  for (let i = 0; i < n; i += 1) acc += (values[i] - mean) ** 2;
+  return Math.sqrt(acc / (n - 1));
+}
+
+/** Scales non-negative weights to sum to 1; all zeros stay zeros. */
+export function normalizeSum(values: Vector): number[] {
+  const total = sum(values);
+  return Array.from(values, (v) => (total <= EPSILON ? 0 : v / total));
+}
+
+/** Share of the total in the first `k` values, e.g. variance explained by k components. */
+export function leadingShare(values: Vector, k: number) {
+  const total = sum(values);
+  if (total <= EPSILON) return 0;
+  let partial = 0;
+  for (let i = 0; i < Math.min(k, values.length); i += 1) partial += values[i];
+  return partial / total;
+}
+
+// ─── Neural-network layers ─────────────────────────────────────────────────
+
+/**
+ * Probabilities from logits. Dividing by a temperature below 1 sharpens the
+ * distribution, above 1 flattens it; it must be positive.
+ */
+export function softmax(logits: Vector, temperature = 1): number[] {
+  if (!(temperature > 0)) throw new Error(`softmax: temperature must be positive, got ${temperature}`);
+  let max = -Infinity;
+  for (let i = 0; i < logits.length; i += 1) max = Math.max(max, logits[i] / temperature);
+  const exps = Array.from(logits, (v) => Math.exp(v / temperature - max));
+  const total = sum(exps);
+  return exps.map((v) => v / total);
+}
+
+export function relu(m: Matrix): Matrix {
+  return map(m, (v) => Math.max(0, v));
+}
+
+/**
+ * 2-D cross-correlation (what deep-learning libraries call convolution) with
+ * zero padding, so the output has the input's size. Kernels have odd sides.
+ */
+export function conv2dSame(image: Matrix, kernel: Matrix): Matrix {
+  const padY = Math.floor(kernel.rows / 2);
+  const padX = Math.floor(kernel.cols / 2);
+  return fromFunction(image.rows, image.cols, (y, x) => {
+    let sum = 0;
+    for (let ky = 0; ky < kernel.rows; ky += 1) {
+      const iy = y + ky - padY;
+      if (iy < 0 || iy >= image.rows) continue;
+      for (let kx = 0; kx < kernel.cols; kx += 1) {
+        const ix = x + kx - padX;
+        if (ix >= 0 && ix < image.cols) sum += at(image, iy, ix) * at(kernel, ky, kx);
+      }
+    }
+    return sum;
+  });
+}
+
+/** Max over non-overlapping size × size windows; a ragged last row or column is dropped. */
+export function maxPool(m: Matrix, size = 2): Matrix {
+  return fromFunction(Math.floor(m.rows / size), Math.floor(m.cols / size), (r, c) => {
+    let max = -Infinity;
+    for (let dy = 0; dy < size; dy += 1) {
+      for (let dx = 0; dx < size; dx += 1) max = Math.max(max, at(m, r * size + dy, c * size + dx));
+    }
+    return max;
+  });
+}
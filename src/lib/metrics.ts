@@ -0,0 +1,70 @@
+import { createContext, useContext, useEffect, useSyncExternalStore } from "react";
+
+// Views report a few headline numbers (final loss, energy kept, predicted
+// token). A snapshot comparison renders the same view twice, each inside its
+// own metrics scope, and diffs what the two copies report.
+
+export type Metric = {
+  label: string;
+  value: number | string;
+  /** Decimal places for numbers; defaults to 3. */
+  digits?: number;
+  /** Appended to formatted numbers, e.g. "%". */
+  unit?: string;
+};
+
+export type MetricsStore = {
+  set: (metrics: Metric[]) => void;
+  subscribe: (listener: () => void) => () => void;
+  getSnapshot: () => Metric[];
+};
+
+const EMPTY: Metric[] = [];
+
+export function createMetricsStore(): MetricsStore {
+  let metrics = EMPTY;
+  const listeners = new Set<() => void>();
+  return {
+    set: (next) => {
+      metrics = next;
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getSnapshot: () => metrics,
+  };
+}
+
+const MetricsContext = createContext<MetricsStore | null>(null);
+
+export const MetricsScope = MetricsContext.Provider;
+
+/** Publishes the view's headline numbers to the enclosing scope, if any. */
+export function useReportMetrics(metrics: Metric[]) {
+  const store = useContext(MetricsContext);
+  const key = JSON.stringify(metrics);
+  useEffect(() => {
+    store?.set(JSON.parse(key) as Metric[]);
+  }, [store, key]);
+}
+
+export function useMetrics(store: MetricsStore) {
+  return useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot);
+}
+
+export function formatMetric(metric: Metric) {
+  if (typeof metric.value === "string") return metric.value;
+  return `${metric.value.toFixed(metric.digits ?? 3)}${metric.unit ?? ""}`;
+}
+
+/** "+0.120" style difference of live minus pinned, or null when not numeric. */
+export function formatMetricDelta(pinned: Metric, live: Metric) {
+  if (typeof pinned.value !== "number" || typeof live.value !== "number") return null;
+  const delta = live.value - pinned.value;
+  const sign = delta > 0 ? "+" : delta < 0 ? "−" : "±";
+  return `${sign}${Math.abs(delta).toFixed(live.digits ?? 3)}${live.unit ?? ""}`;
+}
@@ -0,0 +1,232 @@
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import { useIsAudience } from "./presenterSync";
+import { useIsReplaying } from "./replay";
+import { type ParamSpec, readParam, useParamStoreRef, useUrlParam, writeParam } from "./urlState";
+
+// Every animated visualization drives a single frame parameter through the
+// same transport, so play/pause/step/scrub behave identically across tabs and
+// one switch can hold all of them still.
+
+export type PlaybackParams = {
+  frame: ParamSpec<number>;
+  playing: ParamSpec<boolean>;
+  /** Milliseconds per frame. */
+  speed: ParamSpec<number>;
+  loop: ParamSpec<boolean>;
+};
+
+export type Transport = {
+  frame: number;
+  first: number;
+  last: number;
+  playing: boolean;
+  speed: number;
+  loop: boolean;
+  play: () => void;
+  pause: () => void;
+  toggle: () => void;
+  /** Pauses and moves by `delta` frames, wrapping when looping. */
+  step: (delta: number) => void;
+  /** Moves to a frame without changing play state. */
+  seek: (frame: number) => void;
+  /** Pauses and moves to a frame (scrub bars). */
+  scrub: (frame: number) => void;
+  reset: () => void;
+  setSpeed: (ms: number) => void;
+  setLoop: (loop: boolean) => void;
+};
+
+// ─── Global hold ───────────────────────────────────────────────────────────
+
+let held = false;
+const holdListeners = new Set<() => void>();
+
+export function setAnimationsHeld(next: boolean) {
+  if (held === next) return;
+  held = next;
+  holdListeners.forEach((listener) => listener());
+}
+
+function subscribeHold(listener: () => void) {
+  holdListeners.add(listener);
+  return () => {
+    holdListeners.delete(listener);
+  };
+}
+
+function getHeld() {
+  return held;
+}
+
+export function useAnimationsHeld() {
+  return useSyncExternalStore(subscribeHold, getHeld, getHeld);
+}
+
+// ─── Live transports ──────────────────────────────────────────────────────
+
+// Transports bound to a writable store, i.e. on screen and owning the URL, so
+// code outside React (the embed API) can start and stop them.
+const liveTransports = new Set<{ current: Transport }>();
+
+export function playAllTransports() {
+  liveTransports.forEach((transport) => transport.current.play());
+}
+
+export function pauseAllTransports() {
+  liveTransports.forEach((transport) => transport.current.pause());
+}
+
+// ─── Followers ─────────────────────────────────────────────────────────────
+
+/**
+ * Audience windows and replays show state that comes from elsewhere, so
+ * they never run clocks or reset animations themselves.
+ */
+export function useIsFollower() {
+  const audience = useIsAudience();
+  const replaying = useIsReplaying();
+  return audience || replaying;
+}
+
+// ─── Reduced motion ────────────────────────────────────────────────────────
+
+const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+
+function subscribeReducedMotion(listener: () => void) {
+  const query = window.matchMedia(REDUCED_MOTION_QUERY);
+  query.addEventListener("change", listener);
+  return () => query.removeEventListener("change", listener);
+}
+
+function getReducedMotion() {
+  return window.matchMedia(REDUCED_MOTION_QUERY).matches;
+}
+
+export function useReducedMotion() {
+  return useSyncExternalStore(subscribeReducedMotion, getReducedMotion, () => false);
+}
+
+// ─── Transport ─────────────────────────────────────────────────────────────
+
+function clampFrame(frame: number, first: number, last: number) {
+  return Math.max(first, Math.min(last, Math.round(frame)));
+}
+
+/**
+ * Play state, speed and loop live in the concept's parameters. With reduced
+ * motion, animations that would autoplay wait for an explicit Play.
+ */
+export function usePlayback(params: PlaybackParams, first: number, last: number): Transport {
+  const store = useParamStoreRef();
+  const [frame] = useUrlParam(params.frame);
+  const [wantsPlay, setPlaying] = useUrlParam(params.playing);
+  const [speed, setSpeed] = useUrlParam(params.speed);
+  const [loop, setLoop] = useUrlParam(params.loop);
+  const follower = useIsFollower();
+  const allHeld = useAnimationsHeld();
+  const reducedMotion = useReducedMotion();
+  const [startedByUser, setStartedByUser] = useState(false);
+
+  const playing = wantsPlay && !allHeld && (!reducedMotion || startedByUser);
+  const writable = store.current.writable;
+
+  const seek = useCallback(
+    (target: number) => {
+      store.current.update((next) => writeParam(params.frame, next, clampFrame(target, first, last)));
+    },
+    [store, params, first, last],
+  );
+
+  const play = useCallback(() => {
+    setStartedByUser(true);
+    setAnimationsHeld(false);
+    store.current.update((next) => {
+      // Restart a finished one-shot run instead of immediately stopping again.
+      if (!readParam(params.loop, next) && readParam(params.frame, next) >= last) {
+        writeParam(params.frame, next, first);
+      }
+      writeParam(params.playing, next, true);
+    });
+  }, [store, params, first, last]);
+
+  const pause = useCallback(() => setPlaying(false), [setPlaying]);
+
+  const step = useCallback(
+    (delta: number) => {
+      store.current.update((next) => {
+        const current = readParam(params.frame, next);
+        const span = last - first + 1;
+        const target = readParam(params.loop, next)
+          ? first + ((((current - first + delta) % span) + span) % span)
+          : clampFrame(current + delta, first, last);
+        writeParam(params.playing, next, false);
+        writeParam(params.frame, next, target);
+      });
+    },
+    [store, params, first, last],
+  );
+
+  const scrub = useCallback(
+    (target: number) => {
+      store.current.update((next) => {
+        writeParam(params.playing, next, false);
+        writeParam(params.frame, next, clampFrame(target, first, last));
+      });
+    },
+    [store, params, first, last],
+  );
+
+  // Followers get their frames from elsewhere; background tabs are frozen.
+  const clockRunning = playing && !follower && writable;
+
+  useEffect(() => {
+    if (!clockRunning) return;
+    const timer = window.setInterval(() => {
+      store.current.update((next) => {
+        const current = readParam(params.frame, next);
+        if (current < last) {
+          writeParam(params.frame, next, current + 1);
+        } else if (readParam(params.loop, next)) {
+          writeParam(params.frame, next, first);
+        } else {
+          writeParam(params.playing, next, false);
+        }
+      });
+    }, speed);
+    return () => window.clearInterval(timer);
+  }, [clockRunning, store, params, first, last, speed]);
+
+  const transport = useMemo(
+    () => ({
+      frame: clampFrame(frame, first, last),
+      first,
+      last,
+      playing,
+      speed,
+      loop,
+      play,
+      pause,
+      toggle: playing ? pause : play,
+      step,
+      seek,
+      scrub,
+      reset: () => seek(first),
+      setSpeed,
+      setLoop,
+    }),
+    [frame, first, last, playing, speed, loop, play, pause, step, seek, scrub, setSpeed, setLoop],
+  );
+
+  const live = useRef(transport);
+  live.current = transport;
+
+  useEffect(() => {
+    if (!writable) return;
+    liveTransports.add(live);
+    return () => {
+      liveTransports.delete(live);
+    };
+  }, [writable]);
+
+  return transport;
+}
@@ -0,0 +1,116 @@
+import { commitSearch, getSearch, subscribeSearch, useSearch } from "./urlState";
+
+// A presenter window mirrors its whole parameter store (tab, sliders, slide,
+// play/pause and animation step) to any number of audience windows. Audience
+// windows only follow: they never run their own animation clocks.
+
+export const AUDIENCE_KEY = "audience";
+
+const CHANNEL_NAME = "dl-visualizer-presenter";
+const PRESENTER_SESSION_KEY = "dl-visualizer:presenter";
+
+type SyncMessage = { type: "state"; search: string } | { type: "hello" };
+
+let channel: BroadcastChannel | null = null;
+
+function getChannel() {
+  if (!channel && typeof BroadcastChannel !== "undefined") {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+}
+
+function post(message: SyncMessage) {
+  getChannel()?.postMessage(message);
+}
+
+export function isAudience(params: URLSearchParams) {
+  return params.get(AUDIENCE_KEY) === "1";
+}
+
+export function useIsAudience() {
+  return isAudience(useSearch());
+}
+
+function publishState() {
+  post({ type: "state", search: getSearch().toString() });
+}
+
+function broadcast(ch: BroadcastChannel) {
+  const onMessage = (event: MessageEvent<SyncMessage>) => {
+    if (event.data?.type === "hello") publishState();
+  };
+  ch.addEventListener("message", onMessage);
+  const unsubscribe = subscribeSearch(publishState);
+  publishState();
+  return () => {
+    ch.removeEventListener("message", onMessage);
+    unsubscribe();
+  };
+}
+
+function follow(ch: BroadcastChannel) {
+  const onMessage = (event: MessageEvent<SyncMessage>) => {
+    if (event.data?.type !== "state") return;
+    const next = new URLSearchParams(event.data.search);
+    next.set(AUDIENCE_KEY, "1");
+    commitSearch(next, "replace");
+  };
+  ch.addEventListener("message", onMessage);
+  post({ type: "hello" });
+  return () => ch.removeEventListener("message", onMessage);
+}
+
+let stopBroadcast: (() => void) | null = null;
+
+// Blocked storage (privacy modes, sandboxed iframes) only means presenting
+// does not survive a reload.
+function rememberPresenting() {
+  try {
+    window.sessionStorage.setItem(PRESENTER_SESSION_KEY, "1");
+  } catch {
+    // Nothing to remember it in.
+  }
+}
+
+function wasPresenting() {
+  try {
+    return window.sessionStorage.getItem(PRESENTER_SESSION_KEY) === "1";
+  } catch {
+    return false;
+  }
+}
+
+function startBroadcast() {
+  const ch = getChannel();
+  if (!ch || stopBroadcast) return;
+  stopBroadcast = broadcast(ch);
+  rememberPresenting();
+}
+
+/**
+ * Wires this window into the presenter channel. Returns a cleanup function.
+ * A window that opened an audience view keeps presenting across reloads.
+ */
+export function initPresenterSync() {
+  const ch = getChannel();
+  if (!ch) return () => {};
+
+  if (isAudience(getSearch())) {
+    return follow(ch);
+  }
+  if (wasPresenting()) {
+    startBroadcast();
+  }
+  return () => {
+    stopBroadcast?.();
+    stopBroadcast = null;
+  };
+}
+
+export function openAudienceWindow() {
+  startBroadcast();
+  const params = getSearch();
+  params.set(AUDIENCE_KEY, "1");
+  window.open(`${window.location.pathname}?${params.toString()}`, "_blank", "popup");
+}
@@ -0,0 +1,76 @@
+import { intParam, param } from "./urlState";
+
+// Every stochastic feature (dropout masks, toy weight initializations) draws
+// from this seeded generator instead of Math.random, and its seed is a URL
+// parameter. A shared link, a lesson step or a static render therefore shows
+// exactly the same mask or weights as the screen it was taken from.
+
+export const MAX_SEED = 2 ** 31 - 1;
+
+export type Rng = {
+  /** Uniform in [0, 1). */
+  next: () => number;
+  uniform: (min: number, max: number) => number;
+  /** Gaussian via Box–Muller. */
+  normal: (mean?: number, sd?: number) => number;
+};
+
+/** The `seed` parameter of a concept that draws random numbers. */
+export function seedParam(defaultValue: number) {
+  return param("seed", intParam(0, MAX_SEED), defaultValue);
+}
+
+// splitmix32: turns one 32-bit value into a well-mixed one. Used to expand a
+// seed (and a stream number) into the generator's four words of state.
+function splitmix32(state: number) {
+  let z = (state + 0x9e3779b9) | 0;
+  z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+  z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+  return (z ^ (z >>> 16)) >>> 0;
+}
+
+/**
+ * xoshiro128** seeded from `seed`. `stream` picks an independent sequence for
+ * the same seed, e.g. one per training iteration, so frame n can be drawn
+ * without replaying frames 0…n−1.
+ */
+export function createRng(seed: number, stream = 0): Rng {
+  let x = splitmix32(seed ^ Math.imul(stream, 0x2c1b3c6d));
+  const s = new Uint32Array(4);
+  for (let i = 0; i < 4; i += 1) {
+    x = splitmix32(x);
+    s[i] = x;
+  }
+
+  const nextUint = () => {
+    const result = Math.imul(rotl(Math.imul(s[1], 5), 7), 9) >>> 0;
+    const t = s[1] << 9;
+    s[2] ^= s[0];
+    s[3] ^= s[1];
+    s[1] ^= s[2];
+    s[0] ^= s[3];
+    s[2] ^= t;
+    s[3] = rotl(s[3], 11);
+    return result;
+  };
+
+  const next = () => nextUint() / 2 ** 32;
+
+  return {
+    next,
+    uniform: (min, max) => min + (max - min) * next(),
+    normal: (mean = 0, sd = 1) => {
+      const u = 1 - next();
+      return mean + sd * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * next());
+    },
+  };
+}
+
+function rotl(value: number, bits: number) {
+  return (value << bits) | (value >>> (32 - bits));
+}
+
+/** A fresh seed for the "New seed" button; the one place Math.random is allowed. */
+export function randomSeed() {
+  return Math.floor(Math.random() * MAX_SEED);
+}
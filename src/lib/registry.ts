@@ -0,0 +1,90 @@
+import { type ComponentType, useSyncExternalStore } from "react";
+import type { Tour } from "./tour";
+import type { ParamSchema } from "./urlState";
+
+export type SpeakerNotes = {
+  heading: string;
+  points: string[];
+};
+
+/** A named parameter state within a concept, e.g. "SGD with η = 0.7". */
+export type Scene = {
+  title: string;
+  /** Raw values keyed by the concept's URL keys. */
+  params?: Record<string, string>;
+  /** Extra presenter-only talking points for this particular state. */
+  notes?: string[];
+};
+
+export type ConceptDefinition = {
+  /** Stable id used in `?tab=`; must not collide with other concepts. */
+  id: string;
+  label: string;
+  description: string;
+  load: () => Promise<{ default: ComponentType }>;
+  /** Data the view fetches on mount; warmed up together with the chunk. */
+  preload?: () => Promise<unknown>;
+  params?: ParamSchema;
+  /**
+   * Bump when a parameter changes meaning or range, so settings people saved
+   * for the old version are dropped instead of misread. Defaults to 1.
+   */
+  settingsVersion?: number;
+  notes?: SpeakerNotes;
+  scenes?: Scene[];
+  /**
+   * Frames a printed handout shows where a slide sets none. Nothing plays on
+   * paper, so without these an animation is printed at its first frame.
+   */
+  printParams?: Record<string, string>;
+  tours?: Tour[];
+};
+
+export function defineConcept(definition: ConceptDefinition) {
+  return definition;
+}
+
+let concepts: readonly ConceptDefinition[] = [];
+const listeners = new Set<() => void>();
+
+/**
+ * Adds a concept tab. Modules shipped outside this repo call this from their
+ * own entry point before (or after) the app renders; tabs appear in
+ * registration order.
+ */
+export function registerConcept(definition: ConceptDefinition) {
+  if (concepts.some((c) => c.id === definition.id)) {
+    throw new Error(`Concept "${definition.id}" is already registered`);
+  }
+  concepts = [...concepts, definition];
+  listeners.forEach((listener) => listener());
+}
+
+export function getConcepts() {
+  return concepts;
+}
+
+export function getConcept(id: string | null) {
+  return concepts.find((c) => c.id === id);
+}
+
+/** The concept's own shareable (non-transient) parameters found in `params`. */
+export function conceptSettings(concept: ConceptDefinition, params: URLSearchParams) {
+  const picked = new URLSearchParams();
+  Object.values(concept.params ?? {}).forEach((spec) => {
+    const value = params.get(spec.key);
+    if (!spec.transient && value !== null) picked.set(spec.key, value);
+  });
+  return picked;
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useConcepts() {
+  return useSyncExternalStore(subscribe, getConcepts, getConcepts);
+}
@@ -0,0 +1,240 @@
+import { useSyncExternalStore } from "react";
+import { commitSearch, getSearch, subscribeSearch } from "./urlState";
+
+// A recording is the timeline of every change to the parameter store (tab,
+// sliders, slides, play/pause, animation steps) with timestamps. Replaying it
+// commits the same query strings at the same offsets, scaled by the chosen
+// speed, while the window follows instead of running its own clocks.
+
+export const RECORDING_FORMAT = "dl-visualizer-recording";
+export const RECORDING_VERSION = 1;
+
+export type RecordedChange = {
+  /** Milliseconds since the recording started. */
+  t: number;
+  search: string;
+};
+
+export type Recording = {
+  format: typeof RECORDING_FORMAT;
+  version: typeof RECORDING_VERSION;
+  recordedAt: string;
+  duration: number;
+  events: RecordedChange[];
+};
+
+export const REPLAY_SPEEDS = [0.5, 1, 1.5, 2, 4] as const;
+
+export type RecorderState =
+  | { kind: "idle"; last: Recording | null }
+  | { kind: "recording"; startedAt: number; changes: number }
+  | {
+      kind: "replaying";
+      recording: Recording;
+      /** Recording time in milliseconds. */
+      position: number;
+      playing: boolean;
+      speed: number;
+    };
+
+let state: RecorderState = { kind: "idle", last: null };
+const listeners = new Set<() => void>();
+
+function setState(next: RecorderState) {
+  state = next;
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function getState() {
+  return state;
+}
+
+export function useRecorder() {
+  return useSyncExternalStore(subscribe, getState, getState);
+}
+
+export function isReplaying() {
+  return state.kind === "replaying";
+}
+
+export function useIsReplaying() {
+  return useRecorder().kind === "replaying";
+}
+
+// ─── Recording ─────────────────────────────────────────────────────────────
+
+let recorded: RecordedChange[] = [];
+let stopListening: (() => void) | null = null;
+
+export function startRecording() {
+  if (state.kind !== "idle") return;
+  const startedAt = performance.now();
+  recorded = [{ t: 0, search: getSearch().toString() }];
+  stopListening = subscribeSearch(() => {
+    const search = getSearch().toString();
+    if (search === recorded[recorded.length - 1].search) return;
+    recorded.push({ t: Math.round(performance.now() - startedAt), search });
+    if (state.kind === "recording") setState({ ...state, changes: recorded.length - 1 });
+  });
+  setState({ kind: "recording", startedAt, changes: 0 });
+}
+
+export function stopRecording() {
+  if (state.kind !== "recording") return;
+  stopListening?.();
+  stopListening = null;
+  const recording: Recording = {
+    format: RECORDING_FORMAT,
+    version: RECORDING_VERSION,
+    recordedAt: new Date().toISOString(),
+    duration: Math.round(performance.now() - state.startedAt),
+    events: recorded,
+  };
+  recorded = [];
+  setState({ kind: "idle", last: recording });
+}
+
+export function serializeRecording(recording: Recording) {
+  return `${JSON.stringify(recording)}\n`;
+}
+
+/** Validates a recording file. Throws an Error whose message is shown to the user. */
+export function parseRecording(text: string): Recording {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  const record = data as Partial<Recording> | null;
+  if (!record || record.format !== RECORDING_FORMAT) {
+    throw new Error(`Not a recording (expected "format": "${RECORDING_FORMAT}").`);
+  }
+  if (record.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version ${String(record.version)}; this app reads version ${RECORDING_VERSION}.`);
+  }
+  const events = Array.isArray(record.events) ? record.events : [];
+  if (events.length === 0 || events.some((e) => typeof e?.t !== "number" || typeof e?.search !== "string")) {
+    throw new Error("The recording has no valid changes.");
+  }
+  const sorted = [...events].sort((a, b) => a.t - b.t);
+  return {
+    format: RECORDING_FORMAT,
+    version: RECORDING_VERSION,
+    recordedAt: typeof record.recordedAt === "string" ? record.recordedAt : "",
+    duration: Math.max(typeof record.duration === "number" ? record.duration : 0, sorted[sorted.length - 1].t),
+    events: sorted,
+  };
+}
+
+// ─── Replay ────────────────────────────────────────────────────────────────
+
+// How often the position readout moves between recorded changes.
+const POSITION_TICK_MS = 250;
+
+let timer: number | undefined;
+let ticker: number | undefined;
+/** Wall-clock time at which the replay position was last anchored. */
+let anchoredAt = 0;
+let searchBeforeReplay = "";
+
+function currentPosition() {
+  if (state.kind !== "replaying") return 0;
+  if (!state.playing) return state.position;
+  return Math.min(state.recording.duration, state.position + (performance.now() - anchoredAt) * state.speed);
+}
+
+/** Index of the last change at or before `position`. */
+function changeAt(recording: Recording, position: number) {
+  let index = 0;
+  while (index + 1 < recording.events.length && recording.events[index + 1].t <= position) index += 1;
+  return index;
+}
+
+function clearTimers() {
+  window.clearTimeout(timer);
+  window.clearInterval(ticker);
+  timer = undefined;
+  ticker = undefined;
+}
+
+function schedule() {
+  clearTimers();
+  if (state.kind !== "replaying" || !state.playing) return;
+  const { recording, position, speed } = state;
+  const next = recording.events.find((change) => change.t > position);
+  ticker = window.setInterval(() => {
+    if (state.kind === "replaying") setState({ ...state, position: currentPosition() });
+  }, POSITION_TICK_MS);
+  if (!next) {
+    // Let the last change sit until the recorded end, then stop.
+    timer = window.setTimeout(() => pauseReplay(), (recording.duration - position) / speed);
+    return;
+  }
+  timer = window.setTimeout(() => {
+    if (state.kind !== "replaying") return;
+    commitSearch(new URLSearchParams(next.search), "replace");
+    anchoredAt = performance.now();
+    setState({ ...state, position: next.t });
+    schedule();
+  }, (next.t - position) / speed);
+}
+
+export function startReplay(recording: Recording, speed = 1) {
+  if (state.kind === "recording") stopRecording();
+  if (state.kind !== "replaying") searchBeforeReplay = getSearch().toString();
+  commitSearch(new URLSearchParams(recording.events[0].search), "push");
+  anchoredAt = performance.now();
+  setState({ kind: "replaying", recording, position: 0, playing: true, speed });
+  schedule();
+}
+
+export function pauseReplay() {
+  if (state.kind !== "replaying") return;
+  const position = currentPosition();
+  clearTimers();
+  setState({ ...state, position, playing: false });
+}
+
+export function resumeReplay() {
+  if (state.kind !== "replaying" || state.playing) return;
+  const position = state.position >= state.recording.duration ? 0 : state.position;
+  if (position === 0) commitSearch(new URLSearchParams(state.recording.events[0].search), "replace");
+  anchoredAt = performance.now();
+  setState({ ...state, position, playing: true });
+  schedule();
+}
+
+export function setReplaySpeed(speed: number) {
+  if (state.kind !== "replaying") return;
+  const position = currentPosition();
+  anchoredAt = performance.now();
+  setState({ ...state, position, speed });
+  schedule();
+}
+
+/** Jumps to a recording time and shows the state recorded at that moment. */
+export function seekReplay(position: number) {
+  if (state.kind !== "replaying") return;
+  const clamped = Math.max(0, Math.min(state.recording.duration, position));
+  commitSearch(new URLSearchParams(state.recording.events[changeAt(state.recording, clamped)].search), "replace");
+  anchoredAt = performance.now();
+  setState({ ...state, position: clamped });
+  schedule();
+}
+
+/** Ends the replay and puts back what was on screen before it started. */
+export function stopReplay() {
+  if (state.kind !== "replaying") return;
+  clearTimers();
+  const last = state.recording;
+  setState({ kind: "idle", last });
+  commitSearch(new URLSearchParams(searchBeforeReplay), "push");
+}
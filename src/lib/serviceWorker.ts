@@ -0,0 +1,79 @@
+import { useSyncExternalStore } from "react";
+
+// The production build ships `sw.js` (see pwa/), which precaches every chunk
+// and data file so the app keeps working offline. A new deploy installs in
+// the background and waits; the page offers to switch over instead of
+// reloading on its own in the middle of a talk.
+
+const WORKER_URL = "./sw.js";
+// Long talks keep a tab open for hours; look for a new deploy now and then.
+const UPDATE_CHECK_MS = 30 * 60 * 1000;
+
+let waiting: ServiceWorker | null = null;
+const listeners = new Set<() => void>();
+
+function setWaiting(worker: ServiceWorker | null) {
+  waiting = worker;
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function getUpdateAvailable() {
+  return waiting !== null;
+}
+
+export function useUpdateAvailable() {
+  return useSyncExternalStore(subscribe, getUpdateAvailable, () => false);
+}
+
+function watch(registration: ServiceWorkerRegistration) {
+  // Only an update waits; the very first install takes over right away.
+  const track = (worker: ServiceWorker | null) => {
+    if (!worker || !navigator.serviceWorker.controller) return;
+    if (worker.state === "installed") {
+      setWaiting(worker);
+      return;
+    }
+    worker.addEventListener("statechange", () => {
+      if (worker.state === "installed") setWaiting(worker);
+    });
+  };
+  track(registration.waiting ?? registration.installing);
+  registration.addEventListener("updatefound", () => track(registration.installing));
+}
+
+/** Asks the waiting version to take over; the page reloads once it has. */
+export function applyUpdate() {
+  if (!waiting) {
+    window.location.reload();
+    return;
+  }
+  navigator.serviceWorker.addEventListener("controllerchange", () => window.location.reload(), { once: true });
+  waiting.postMessage({ type: "skip-waiting" });
+}
+
+/** Looks for a new deploy, e.g. after a chunk failed to load. */
+export function checkForUpdate() {
+  navigator.serviceWorker?.getRegistration().then((registration) => registration?.update().catch(() => {}));
+}
+
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register(WORKER_URL)
+      .then((registration) => {
+        watch(registration);
+        window.setInterval(() => registration.update().catch(() => {}), UPDATE_CHECK_MS);
+      })
+      .catch(() => {
+        // No offline support (e.g. plain http); the app itself is unaffected.
+      });
+  });
+}
@@ -0,0 +1,153 @@
+import { useSyncExternalStore } from "react";
+import { isPresenting } from "./deck";
+import { isEmbedded } from "./embed";
+import { isAudience } from "./presenterSync";
+import { type ConceptDefinition, conceptSettings, getConcept, getConcepts } from "./registry";
+import { isReplaying } from "./replay";
+import { commitSearch, getSearch, subscribeSearch, withGlobalParams } from "./urlState";
+
+// Opt-in: once "Remember settings" is on, each concept's non-transient
+// parameters are saved to localStorage and come back when its tab is opened
+// without parameters of its own. A shared link always wins over saved settings.
+
+const PREFIX = "dl-visualizer:settings";
+const ENABLED_KEY = `${PREFIX}:enabled`;
+
+// Saving on every slider tick would hit storage dozens of times a second.
+const SAVE_DELAY_MS = 300;
+
+function storageKey(concept: ConceptDefinition) {
+  return `${PREFIX}:${concept.id}:v${concept.settingsVersion ?? 1}`;
+}
+
+function storage() {
+  try {
+    return window.localStorage;
+  } catch {
+    // Blocked storage (privacy modes, sandboxed iframes) just means nothing is remembered.
+    return null;
+  }
+}
+
+// ─── Opt-in flag ───────────────────────────────────────────────────────────
+
+const enabledListeners = new Set<() => void>();
+
+function getEnabled() {
+  return storage()?.getItem(ENABLED_KEY) === "1";
+}
+
+function subscribeEnabled(listener: () => void) {
+  enabledListeners.add(listener);
+  return () => {
+    enabledListeners.delete(listener);
+  };
+}
+
+export function useRememberSettings() {
+  return useSyncExternalStore(subscribeEnabled, getEnabled, () => false);
+}
+
+/** Turning it off also forgets everything saved so far. */
+export function setRememberSettings(enabled: boolean) {
+  const store = storage();
+  if (!store) return;
+  if (enabled) {
+    try {
+      store.setItem(ENABLED_KEY, "1");
+    } catch {
+      // Quota exceeded or storage refused (private mode): nothing can be remembered.
+      return;
+    }
+    saveActive();
+  } else {
+    Object.keys(store)
+      .filter((key) => key.startsWith(`${PREFIX}:`))
+      .forEach((key) => store.removeItem(key));
+  }
+  enabledListeners.forEach((listener) => listener());
+}
+
+// ─── Saved settings ────────────────────────────────────────────────────────
+
+export function savedSettings(concept: ConceptDefinition) {
+  if (!getEnabled()) return null;
+  const raw = storage()?.getItem(storageKey(concept));
+  return raw === null || raw === undefined ? null : conceptSettings(concept, new URLSearchParams(raw));
+}
+
+/** Query string for opening a concept's tab fresh: its saved settings, if any. */
+export function tabSearch(concept: ConceptDefinition) {
+  const next = new URLSearchParams({ tab: concept.id });
+  savedSettings(concept)?.forEach((value, key) => next.set(key, value));
+  return next;
+}
+
+// Presentations, embeds and replays set parameters on someone else's behalf.
+function ownsSettings(params: URLSearchParams) {
+  return !isPresenting(params) && !isAudience(params) && !isEmbedded(params) && !isReplaying();
+}
+
+function activeConcept(params: URLSearchParams) {
+  return getConcept(params.get("tab")) ?? getConcepts()[0];
+}
+
+function saveActive() {
+  const params = getSearch();
+  const concept = activeConcept(params);
+  const store = storage();
+  if (!concept || !store || !getEnabled() || !ownsSettings(params)) return;
+  const settings = conceptSettings(concept, params);
+  try {
+    // Everything at its default: nothing to remember.
+    if (settings.size === 0) store.removeItem(storageKey(concept));
+    else store.setItem(storageKey(concept), settings.toString());
+  } catch {
+    // Quota exceeded; keep running with whatever was saved before.
+  }
+}
+
+/** Drops a concept's saved settings and returns its tab to the defaults. */
+export function resetToDefaults(concept: ConceptDefinition) {
+  storage()?.removeItem(storageKey(concept));
+  commitSearch(withGlobalParams(new URLSearchParams({ tab: concept.id })), "push");
+}
+
+/**
+ * Restores the active tab's saved settings when the URL carries none of its
+ * parameters, then keeps saving changes. Returns a cleanup function.
+ */
+export function initSettingsPersistence() {
+  const params = getSearch();
+  const concept = activeConcept(params);
+  if (concept && ownsSettings(params) && conceptSettings(concept, params).size === 0) {
+    const saved = savedSettings(concept);
+    if (saved && saved.size > 0) {
+      saved.forEach((value, key) => params.set(key, value));
+      params.set("tab", concept.id);
+      commitSearch(params, "replace");
+    }
+  }
+
+  // Animation frames also change the search, so compare before scheduling a
+  // write rather than restarting a debounce that would never settle.
+  const snapshot = () => {
+    const next = getSearch();
+    const active = activeConcept(next);
+    return active ? `${active.id}?${conceptSettings(active, next)}` : "";
+  };
+  let timer: number | undefined;
+  let lastSaved = snapshot();
+  const unsubscribe = subscribeSearch(() => {
+    if (timer !== undefined || snapshot() === lastSaved) return;
+    timer = window.setTimeout(() => {
+      timer = undefined;
+      lastSaved = snapshot();
+      saveActive();
+    }, SAVE_DELAY_MS);
+  });
+  return () => {
+    window.clearTimeout(timer);
+    unsubscribe();
+  };
+}
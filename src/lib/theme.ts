@@ -0,0 +1,334 @@
+import { useLayoutEffect, useMemo } from "react";
+import { enumParam, param, useUrlParam } from "./urlState";
+
+// Every color in the app comes from here. Page chrome reads the palette as CSS
+// custom properties; visualizations read it (and the colormaps) from
+// `useTheme()` so SVG exports and static renders carry concrete colors.
+
+export type ThemeId = "dark" | "light" | "contrast" | "colorblind";
+
+export type Palette = {
+  bg: string;
+  /** Glow in the top corner of the page background. */
+  bgGlow: string;
+  panel: string;
+  card: string;
+  /** Cards and steps nested inside a panel. */
+  surface: string;
+  /** Sunken backgrounds behind grids and charts. */
+  well: string;
+  control: string;
+  controlActive: string;
+  line: string;
+  border: string;
+  borderStrong: string;
+  /** Selected and focused outlines. */
+  highlight: string;
+  text: string;
+  textSoft: string;
+  /** Headings and the values a slide is about. */
+  textStrong: string;
+  muted: string;
+  accent: string;
+  /** The current position in a scan, timeline or pipeline. */
+  emphasis: string;
+  positive: string;
+  negative: string;
+  info: string;
+  /** Fill for masked, dropped or not-yet-reached cells. */
+  inactive: string;
+  plotBg: string;
+  plotGrid: string;
+  plotAxis: string;
+  plotLabel: string;
+  /** Ten categorical colors: digit classes, optimizers, activations, kernels. */
+  series: readonly string[];
+};
+
+export type ColormapKind = "sequential" | "diverging";
+
+export type Colormap = {
+  id: string;
+  label: string;
+  kind: ColormapKind;
+  /** Safe for deuteranopia and protanopia. */
+  colorblindSafe: boolean;
+  /** Evenly spaced stops from low to high (diverging: negative to positive). */
+  stops: readonly string[];
+};
+
+export type ThemeDefinition = {
+  id: ThemeId;
+  label: string;
+  scheme: "dark" | "light";
+  palette: Palette;
+  sequential: SequentialId;
+  diverging: DivergingId;
+};
+
+const SEQUENTIAL = {
+  viridis: {
+    label: "Viridis",
+    colorblindSafe: true,
+    stops: ["#440154", "#482878", "#3e4989", "#31688e", "#26828e", "#1f9e89", "#35b779", "#6ece58", "#b5de2b", "#fde725"],
+  },
+  cividis: {
+    label: "Cividis",
+    colorblindSafe: true,
+    stops: ["#00224e", "#123570", "#3b496c", "#575d6d", "#707173", "#8a8779", "#a69d75", "#c4b56c", "#e4cf5b", "#fee838"],
+  },
+  magma: {
+    label: "Magma",
+    colorblindSafe: true,
+    stops: ["#000004", "#180f3d", "#440f76", "#721f81", "#9e2f7f", "#cd4071", "#f1605d", "#fd9668", "#feca8d", "#fcfdbf"],
+  },
+  ice: {
+    label: "Ice",
+    colorblindSafe: true,
+    stops: ["#0d1e2a", "#123448", "#1b4d69", "#29678a", "#3d83aa", "#58a0c7", "#7dbde0", "#a9d7f2", "#d8efff"],
+  },
+} as const;
+
+const DIVERGING = {
+  "ice-amber": {
+    label: "Ice–amber (dark centre)",
+    colorblindSafe: true,
+    stops: ["#8ec9ff", "#5a9fd6", "#2d6a96", "#16384f", "#0e202b", "#4d3517", "#92642a", "#d39a4c", "#ffc87a"],
+  },
+  coolwarm: {
+    label: "Cool–warm",
+    colorblindSafe: false,
+    stops: ["#3b4cc0", "#688aef", "#9abbff", "#c9d7f0", "#dddddd", "#f2cbb7", "#f7a889", "#e26952", "#b40426"],
+  },
+  puor: {
+    label: "Purple–orange",
+    colorblindSafe: true,
+    stops: ["#542788", "#8073ac", "#b2abd2", "#d8daeb", "#f7f7f7", "#fee0b6", "#fdb863", "#e08214", "#b35806"],
+  },
+} as const;
+
+export type SequentialId = keyof typeof SEQUENTIAL;
+export type DivergingId = keyof typeof DIVERGING;
+
+function colormaps<K extends string>(kind: ColormapKind, table: Record<K, Omit<Colormap, "id" | "kind">>) {
+  return Object.fromEntries(
+    Object.entries<Omit<Colormap, "id" | "kind">>(table).map(([id, map]) => [id, { ...map, id, kind }]),
+  ) as Record<K, Colormap>;
+}
+
+export const SEQUENTIAL_COLORMAPS = colormaps<SequentialId>("sequential", SEQUENTIAL);
+export const DIVERGING_COLORMAPS = colormaps<DivergingId>("diverging", DIVERGING);
+export const SEQUENTIAL_IDS = Object.keys(SEQUENTIAL) as SequentialId[];
+export const DIVERGING_IDS = Object.keys(DIVERGING) as DivergingId[];
+
+const DARK: Palette = {
+  bg: "#07131a",
+  bgGlow: "#164760",
+  panel: "#102430",
+  card: "#17313f",
+  surface: "#0f2430",
+  well: "#0d1e2a",
+  control: "#123141",
+  controlActive: "#1d4a5f",
+  line: "#2c5063",
+  border: "#33596d",
+  borderStrong: "#466f85",
+  highlight: "#6ea8c6",
+  text: "#eaf7ff",
+  textSoft: "#d9eef9",
+  textStrong: "#fff4cb",
+  muted: "#b4d3e5",
+  accent: "#ffbe6b",
+  emphasis: "#ffd27f",
+  positive: "#8de6b2",
+  negative: "#ff8d8d",
+  info: "#8cb7ff",
+  inactive: "#2a4a5d",
+  plotBg: "#0b1720",
+  plotGrid: "#162e3d",
+  plotAxis: "#3d6e87",
+  plotLabel: "#5a8ea8",
+  series: ["#4fd0ff", "#ffbd4a", "#9be07d", "#ff8d8d", "#b991ff", "#ffd66b", "#7de6a9", "#f4a0d7", "#8ab4ff", "#f8bf86"],
+};
+
+// Projectors wash out dark backgrounds; this one keeps contrast in a lit room.
+const LIGHT: Palette = {
+  bg: "#f3f6f9",
+  bgGlow: "#d7e7f2",
+  panel: "#ffffff",
+  card: "#eef3f7",
+  surface: "#f6f9fb",
+  well: "#e8eff4",
+  control: "#ffffff",
+  controlActive: "#d4e5f1",
+  line: "#c8d5df",
+  border: "#b6c6d2",
+  borderStrong: "#8aa1b3",
+  highlight: "#2f6f95",
+  text: "#10222d",
+  textSoft: "#223846",
+  textStrong: "#0a1822",
+  muted: "#4a6273",
+  accent: "#a85500",
+  emphasis: "#c46f00",
+  positive: "#1a7f4b",
+  negative: "#c0392b",
+  info: "#1f5fbf",
+  inactive: "#cfd9e1",
+  plotBg: "#ffffff",
+  plotGrid: "#e3eaf0",
+  plotAxis: "#8aa1b3",
+  plotLabel: "#4a6273",
+  series: ["#1f77b4", "#e07000", "#2ca02c", "#d62728", "#9467bd", "#8c564b", "#e377c2", "#5f6b73", "#a4a51c", "#1393a3"],
+};
+
+const CONTRAST: Palette = {
+  bg: "#000000",
+  bgGlow: "#000000",
+  panel: "#000000",
+  card: "#000000",
+  surface: "#000000",
+  well: "#000000",
+  control: "#000000",
+  controlActive: "#333333",
+  line: "#ffffff",
+  border: "#ffffff",
+  borderStrong: "#ffffff",
+  highlight: "#00e5ff",
+  text: "#ffffff",
+  textSoft: "#ffffff",
+  textStrong: "#ffff00",
+  muted: "#e6e6e6",
+  accent: "#ffd400",
+  emphasis: "#ffff00",
+  positive: "#00ff7f",
+  negative: "#ff6b6b",
+  info: "#4dc3ff",
+  inactive: "#3a3a3a",
+  plotBg: "#000000",
+  plotGrid: "#4d4d4d",
+  plotAxis: "#ffffff",
+  plotLabel: "#ffffff",
+  series: ["#00e5ff", "#ffd400", "#00ff7f", "#ff6b6b", "#d99cff", "#ffffff", "#ff9f1c", "#ff7eb6", "#7aa7ff", "#c6ff4d"],
+};
+
+// Okabe–Ito colors: positive/negative and every series pair stay apart for
+// deuteranopes and protanopes, who cannot split the usual red/green.
+const COLORBLIND: Palette = {
+  ...DARK,
+  accent: "#e69f00",
+  emphasis: "#f0e442",
+  positive: "#56b4e9",
+  negative: "#e69f00",
+  info: "#a3c9f0",
+  series: ["#56b4e9", "#e69f00", "#009e73", "#f0e442", "#cc79a7", "#0072b2", "#d55e00", "#ffffff", "#999999", "#7fd4bd"],
+};
+
+export const THEMES: Record<ThemeId, ThemeDefinition> = {
+  dark: { id: "dark", label: "Dark", scheme: "dark", palette: DARK, sequential: "viridis", diverging: "ice-amber" },
+  light: { id: "light", label: "Light (projector)", scheme: "light", palette: LIGHT, sequential: "viridis", diverging: "coolwarm" },
+  contrast: { id: "contrast", label: "High contrast", scheme: "dark", palette: CONTRAST, sequential: "magma", diverging: "puor" },
+  colorblind: { id: "colorblind", label: "Colorblind-safe", scheme: "dark", palette: COLORBLIND, sequential: "cividis", diverging: "puor" },
+};
+
+export const THEME_IDS = Object.keys(THEMES) as ThemeId[];
+
+export const THEME_PARAMS = {
+  theme: param("theme", enumParam(THEME_IDS), "dark" as ThemeId, { global: true }),
+  // "auto" follows the theme's own choice.
+  sequential: param("seq", enumParam(["auto", ...SEQUENTIAL_IDS] as const), "auto", { global: true }),
+  diverging: param("div", enumParam(["auto", ...DIVERGING_IDS] as const), "auto", { global: true }),
+};
+
+// ─── Sampling ──────────────────────────────────────────────────────────────
+
+type Rgb = [number, number, number];
+
+const rgbCache = new Map<string, Rgb[]>();
+
+function parseHex(hex: string): Rgb {
+  const value = Number.parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+function stopsOf(map: Colormap) {
+  let rgb = rgbCache.get(map.id);
+  if (!rgb) {
+    rgb = map.stops.map(parseHex);
+    rgbCache.set(map.id, rgb);
+  }
+  return rgb;
+}
+
+/** Color at `t` in [0, 1], linearly interpolated between stops. */
+export function sampleColormap(map: Colormap, t: number) {
+  const stops = stopsOf(map);
+  const position = Math.max(0, Math.min(1, t)) * (stops.length - 1);
+  const index = Math.min(stops.length - 2, Math.floor(position));
+  const f = position - index;
+  const [r0, g0, b0] = stops[index];
+  const [r1, g1, b1] = stops[index + 1];
+  return `rgb(${Math.round(r0 + (r1 - r0) * f)}, ${Math.round(g0 + (g1 - g0) * f)}, ${Math.round(b0 + (b1 - b0) * f)})`;
+}
+
+/** Diverging lookup for a signed value in [-1, 1]; zero is the centre stop. */
+export function sampleDiverging(map: Colormap, value: number) {
+  return sampleColormap(map, (value + 1) / 2);
+}
+
+/**
+ * A two-stop map from `from` to `to`, e.g. a series color rising out of the
+ * panel background. Both must be six-digit hex colors.
+ */
+export function tintColormap(from: string, to: string): Colormap {
+  return { id: `tint ${from} ${to}`, label: "Tint", kind: "sequential", colorblindSafe: false, stops: [from, to] };
+}
+
+export function colormapGradient(map: Colormap, direction = "90deg") {
+  return `linear-gradient(${direction}, ${map.stops.join(", ")})`;
+}
+
+/** `:root` custom properties for page chrome, e.g. `--text-strong`. */
+export function themeCss(theme: ThemeDefinition) {
+  const lines = Object.entries(theme.palette)
+    .filter((entry): entry is [string, string] => typeof entry[1] === "string")
+    .map(([name, value]) => `  --${name.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)}: ${value};`);
+  return `:root {\n  color-scheme: ${theme.scheme};\n${lines.join("\n")}\n}`;
+}
+
+const THEME_STYLE_ID = "theme-tokens";
+
+export type Theme = ThemeDefinition & {
+  sequentialMap: Colormap;
+  divergingMap: Colormap;
+};
+
+export function resolveTheme(id: ThemeId, sequential: SequentialId | "auto", diverging: DivergingId | "auto"): Theme {
+  const theme = THEMES[id];
+  return {
+    ...theme,
+    sequentialMap: SEQUENTIAL_COLORMAPS[sequential === "auto" ? theme.sequential : sequential],
+    divergingMap: DIVERGING_COLORMAPS[diverging === "auto" ? theme.diverging : diverging],
+  };
+}
+
+export function useTheme() {
+  const [id] = useUrlParam(THEME_PARAMS.theme);
+  const [sequential] = useUrlParam(THEME_PARAMS.sequential);
+  const [diverging] = useUrlParam(THEME_PARAMS.diverging);
+  return useMemo(() => resolveTheme(id, sequential, diverging), [id, sequential, diverging]);
+}
+
+/** Publishes the theme's custom properties to the document. */
+export function useThemeStyle(theme: ThemeDefinition) {
+  useLayoutEffect(() => {
+    let style = document.getElementById(THEME_STYLE_ID);
+    if (!style) {
+      style = document.createElement("style");
+      style.id = THEME_STYLE_ID;
+      document.head.append(style);
+    }
+    style.textContent = themeCss(theme);
+    document.documentElement.dataset.theme = theme.id;
+  }, [theme]);
+}
@@ -0,0 +1,148 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { nextPaint } from "./exportFrame";
+import { pauseAllTransports, playAllTransports } from "./playback";
+import { type ConceptDefinition, getConcept } from "./registry";
+import { getSearch, readParam, subscribeSearch, updateSearch } from "./urlState";
+
+// Scripted walkthroughs authored next to each concept (`tours` in its
+// definition). A step sets parameters, optionally plays the animation until a
+// frame or a view-reported condition is reached, highlights one panel marked
+// `data-tour="name"` and shows a callout.
+
+export type TourWait =
+  /** Until the parameter with this URL key reaches `atLeast`, e.g. an animation step. */
+  | { param: string; atLeast: number }
+  /** Until the view reports the condition through `useTourCondition`. */
+  | { condition: string };
+
+export type TourStep = {
+  title: string;
+  /** Callout text, shown once the step's wait is over. */
+  say: string;
+  /** Raw values keyed by the concept's URL keys, applied when the step starts. */
+  params?: Record<string, string>;
+  /** `data-tour` name of the panel to highlight. */
+  highlight?: string;
+  /** Starts the animation when the step begins and stops it when `until` is met. */
+  play?: boolean;
+  until?: TourWait;
+};
+
+export type Tour = {
+  id: string;
+  title: string;
+  steps: TourStep[];
+};
+
+export type TourState = {
+  concept: string;
+  tour: Tour;
+  index: number;
+  /** False while the current step is still waiting for its `until`. */
+  ready: boolean;
+};
+
+let state: TourState | null = null;
+const listeners = new Set<() => void>();
+const conditions = new Map<string, boolean>();
+let stopWatching: (() => void) | null = null;
+// Views report conditions from effects, so right after a step sets its
+// parameters the reported values still describe the previous state.
+let settledStep = -1;
+let stepCounter = 0;
+
+function setState(next: TourState | null) {
+  state = next;
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function getState() {
+  return state;
+}
+
+export function useTour() {
+  return useSyncExternalStore(subscribe, getState, () => null);
+}
+
+function waitIsOver(concept: ConceptDefinition | undefined, wait: TourWait) {
+  if ("condition" in wait) return settledStep === stepCounter && conditions.get(wait.condition) === true;
+  const spec = Object.values(concept?.params ?? {}).find((candidate) => candidate.key === wait.param);
+  const value: unknown = spec ? readParam(spec, getSearch()) : Number(getSearch().get(wait.param));
+  return typeof value === "number" && value >= wait.atLeast;
+}
+
+/** Re-checks the current step; called on every parameter or condition change. */
+function check() {
+  if (!state) return;
+  if (getSearch().get("tab") !== state.concept) {
+    endTour();
+    return;
+  }
+  const step = state.tour.steps[state.index];
+  if (state.ready || !step.until) return;
+  if (waitIsOver(getConcept(state.concept), step.until)) {
+    if (step.play) pauseAllTransports();
+    setState({ ...state, ready: true });
+  }
+}
+
+function enterStep(concept: string, tour: Tour, index: number) {
+  const step = tour.steps[index];
+  const entered = ++stepCounter;
+  setState({ concept, tour, index, ready: !step.until });
+  updateSearch((params) => {
+    params.set("tab", concept);
+    Object.entries(step.params ?? {}).forEach(([key, value]) => params.set(key, value));
+  }, "replace");
+  if (step.play) playAllTransports();
+  check();
+  void nextPaint().then(() => {
+    if (entered !== stepCounter) return;
+    settledStep = entered;
+    check();
+  });
+}
+
+export function startTour(concept: ConceptDefinition, tour: Tour) {
+  if (tour.steps.length === 0) return;
+  stopWatching?.();
+  stopWatching = subscribeSearch(check);
+  enterStep(concept.id, tour, 0);
+}
+
+export function goToTourStep(index: number) {
+  if (!state || index < 0 || index >= state.tour.steps.length) return;
+  enterStep(state.concept, state.tour, index);
+}
+
+export function endTour() {
+  stopWatching?.();
+  stopWatching = null;
+  if (state && state.tour.steps[state.index].play && !state.ready) pauseAllTransports();
+  setState(null);
+}
+
+/**
+ * Lets a view report something only it can compute (e.g. "90% of the energy
+ * is kept") so tour steps can wait for it.
+ */
+export function useTourCondition(name: string, met: boolean) {
+  useEffect(() => {
+    conditions.set(name, met);
+    check();
+  }, [name, met]);
+
+  useEffect(
+    () => () => {
+      conditions.delete(name);
+    },
+    [name],
+  );
+}
@@ -0,0 +1,366 @@
+import { type SetStateAction, createContext, useCallback, useContext, useMemo, useRef, useSyncExternalStore } from "react";
+
+// The query string is the single source of truth for shareable state. Every
+// visualization reads and writes its parameters through this store, so a
+// copied link reopens exactly the same view and back/forward restores it.
+// Transient parameters (play/pause, animation step) live in the same store so
+// they can be mirrored to other windows, but never reach the address bar.
+
+export type ParamCodec<T> = {
+  /** Returns null when the raw value is malformed so the default is used. */
+  parse: (raw: string) => T | null;
+  format: (value: T) => string;
+};
+
+export type ParamSpec<T> = {
+  key: string;
+  codec: ParamCodec<T>;
+  defaultValue: T;
+  transient: boolean;
+};
+
+export type ParamSchema = Record<string, ParamSpec<any>>;
+
+export type ParamValues<S extends ParamSchema> = {
+  [K in keyof S]: S[K]["defaultValue"];
+};
+
+export type HistoryMode = "push" | "replace";
+
+// Slider drags and autoplay update the store every few milliseconds; the
+// browser throttles history writes, so the URL itself is updated lazily.
+const URL_WRITE_DELAY_MS = 200;
+
+function clamp(value: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, value));
+}
+
+function parseFiniteNumber(raw: string) {
+  if (raw.trim() === "") return null;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : null;
+}
+
+export function numberParam(min: number, max: number): ParamCodec<number> {
+  return {
+    parse: (raw) => {
+      const value = parseFiniteNumber(raw);
+      return value === null ? null : clamp(value, min, max);
+    },
+    format: (value) => String(Number(value.toFixed(6))),
+  };
+}
+
+export function intParam(min: number, max: number): ParamCodec<number> {
+  return {
+    parse: (raw) => {
+      const value = parseFiniteNumber(raw);
+      return value === null ? null : clamp(Math.round(value), min, max);
+    },
+    format: (value) => String(Math.round(value)),
+  };
+}
+
+export const boolParam: ParamCodec<boolean> = {
+  parse: (raw) => {
+    if (raw === "1" || raw === "true") return true;
+    if (raw === "0" || raw === "false") return false;
+    return null;
+  },
+  format: (value) => (value ? "1" : "0"),
+};
+
+export function enumParam<T extends string>(values: readonly T[]): ParamCodec<T> {
+  return {
+    parse: (raw) => (values.includes(raw as T) ? (raw as T) : null),
+    format: (value) => value,
+  };
+}
+
+export function listParam<T>(item: ParamCodec<T>): ParamCodec<T[]> {
+  return {
+    parse: (raw) => {
+      if (raw === "") return [];
+      const out: T[] = [];
+      for (const part of raw.split(",")) {
+        const value = item.parse(part);
+        if (value === null) return null;
+        out.push(value);
+      }
+      return out;
+    },
+    format: (value) => value.map((v) => item.format(v)).join(","),
+  };
+}
+
+export function vec2Param(min: number, max: number): ParamCodec<[number, number]> {
+  const list = listParam(numberParam(min, max));
+  return {
+    parse: (raw) => {
+      const value = list.parse(raw);
+      return value && value.length === 2 ? [value[0], value[1]] : null;
+    },
+    format: (value) => list.format(value),
+  };
+}
+
+const transientKeys = new Set<string>();
+const globalKeys = new Set<string>();
+
+/**
+ * `transient` keeps a value out of the address bar. `global` marks a viewer
+ * preference (e.g. the theme) that survives tab and slide changes, which
+ * otherwise replace the whole query string.
+ */
+export function param<T>(
+  key: string,
+  codec: ParamCodec<T>,
+  defaultValue: T,
+  options: { transient?: boolean; global?: boolean } = {},
+): ParamSpec<T> {
+  const transient = options.transient ?? false;
+  if (transient) transientKeys.add(key);
+  if (options.global) globalKeys.add(key);
+  return { key, codec, defaultValue, transient };
+}
+
+/** Copies the global parameters of `from` (the current URL) onto `next`. */
+export function withGlobalParams(next: URLSearchParams, from: URLSearchParams = current) {
+  globalKeys.forEach((key) => {
+    const value = from.get(key);
+    if (value === null) next.delete(key);
+    else next.set(key, value);
+  });
+  return next;
+}
+
+export function readParam<T>(spec: ParamSpec<T>, params: URLSearchParams): T {
+  const raw = params.get(spec.key);
+  if (raw === null) return spec.defaultValue;
+  return spec.codec.parse(raw) ?? spec.defaultValue;
+}
+
+/** Values equal to the default are dropped to keep shared links short. */
+export function writeParam<T>(spec: ParamSpec<T>, params: URLSearchParams, value: T) {
+  const formatted = spec.codec.format(value);
+  if (formatted === spec.codec.format(spec.defaultValue)) {
+    params.delete(spec.key);
+  } else {
+    params.set(spec.key, formatted);
+  }
+}
+
+export function readParams<S extends ParamSchema>(schema: S, params: URLSearchParams): ParamValues<S> {
+  const out = {} as ParamValues<S>;
+  for (const name of Object.keys(schema) as Array<keyof S>) {
+    out[name] = readParam(schema[name], params);
+  }
+  return out;
+}
+
+export function writeParams<S extends ParamSchema>(
+  schema: S,
+  params: URLSearchParams,
+  values: Partial<ParamValues<S>>,
+) {
+  for (const name of Object.keys(values) as Array<keyof S>) {
+    const value = values[name];
+    if (value !== undefined) writeParam(schema[name], params, value);
+  }
+}
+
+// ─── Store ─────────────────────────────────────────────────────────────────
+
+const hasWindow = typeof window !== "undefined";
+
+let current = new URLSearchParams(hasWindow ? window.location.search : "");
+let snapshot = current.toString();
+let pendingWrite: number | null = null;
+const listeners = new Set<() => void>();
+
+function toHref(params: URLSearchParams) {
+  const visible = new URLSearchParams(params);
+  transientKeys.forEach((key) => visible.delete(key));
+  const url = new URL(window.location.href);
+  // Commas are legal in a query string; keep "start=-0.8,0.8" readable.
+  url.search = visible.toString().replace(/%2C/gi, ",");
+  return `${url.pathname}${url.search}${url.hash}`;
+}
+
+function replaceUrl(params: URLSearchParams) {
+  const href = toHref(params);
+  const location = window.location;
+  if (href !== `${location.pathname}${location.search}${location.hash}`) {
+    window.history.replaceState(null, "", href);
+  }
+}
+
+function cancelPendingWrite() {
+  if (pendingWrite !== null) {
+    window.clearTimeout(pendingWrite);
+    pendingWrite = null;
+  }
+}
+
+function emit() {
+  snapshot = current.toString();
+  listeners.forEach((listener) => listener());
+}
+
+if (hasWindow) {
+  window.addEventListener("popstate", () => {
+    cancelPendingWrite();
+    current = new URLSearchParams(window.location.search);
+    emit();
+  });
+}
+
+export function subscribeSearch(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function getSnapshot() {
+  return snapshot;
+}
+
+export function getSearch() {
+  return new URLSearchParams(current);
+}
+
+/**
+ * Replaces the whole query string. "push" creates a history entry (tab
+ * switches); "replace" coalesces rapid parameter edits into the current one.
+ */
+export function commitSearch(next: URLSearchParams, mode: HistoryMode = "replace") {
+  const previous = current;
+  if (next.toString() === previous.toString()) return;
+
+  current = new URLSearchParams(next);
+  emit();
+
+  if (!hasWindow) return;
+  if (mode === "push") {
+    // Settle the entry we are leaving so "back" restores its latest state.
+    cancelPendingWrite();
+    replaceUrl(previous);
+    window.history.pushState(null, "", toHref(current));
+    return;
+  }
+  if (pendingWrite === null) {
+    pendingWrite = window.setTimeout(() => {
+      pendingWrite = null;
+      replaceUrl(current);
+    }, URL_WRITE_DELAY_MS);
+  }
+}
+
+export function updateSearch(mutate: (params: URLSearchParams) => void, mode: HistoryMode = "replace") {
+  const next = getSearch();
+  mutate(next);
+  commitSearch(next, mode);
+}
+
+// ─── Scopes ────────────────────────────────────────────────────────────────
+
+/**
+ * Where a subtree reads and writes its parameters. Views normally use the URL
+ * store; a frozen store pins a view to fixed values, e.g. a tab that stays
+ * mounted in the background while another tab owns the URL.
+ */
+export type ParamStore = {
+  /** False for stores that ignore writes; animation clocks stop there. */
+  writable: boolean;
+  subscribe: (listener: () => void) => () => void;
+  getSnapshot: () => string;
+  update: (mutate: (params: URLSearchParams) => void, mode?: HistoryMode) => void;
+};
+
+export const urlStore: ParamStore = {
+  writable: true,
+  subscribe: subscribeSearch,
+  getSnapshot,
+  update: updateSearch,
+};
+
+/** A store that always reports the given parameters and ignores writes. */
+export function frozenStore(params: URLSearchParams): ParamStore {
+  const search = params.toString();
+  return {
+    writable: false,
+    subscribe: () => () => {},
+    getSnapshot: () => search,
+    update: () => {},
+  };
+}
+
+const ParamStoreContext = createContext(urlStore);
+
+export const ParamScope = ParamStoreContext.Provider;
+
+export function useParamStore() {
+  return useContext(ParamStoreContext);
+}
+
+/**
+ * The current store behind a ref, so callbacks that write to it keep their
+ * identity when a view moves between scopes (e.g. its tab is backgrounded).
+ */
+export function useParamStoreRef() {
+  const store = useContext(ParamStoreContext);
+  const ref = useRef(store);
+  ref.current = store;
+  return ref;
+}
+
+export function useSearch() {
+  const store = useContext(ParamStoreContext);
+  const search = useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot);
+  return useMemo(() => new URLSearchParams(search), [search]);
+}
+
+/**
+ * Only the given keys of the current parameters. Unlike `useSearch`, the
+ * component re-renders when one of them changes, not on every animation frame.
+ */
+export function useSearchKeys(keys: readonly string[]) {
+  const store = useContext(ParamStoreContext);
+  const select = () => {
+    const all = new URLSearchParams(store.getSnapshot());
+    const picked = new URLSearchParams();
+    keys.forEach((key) => {
+      const value = all.get(key);
+      if (value !== null) picked.set(key, value);
+    });
+    return picked.toString();
+  };
+  const search = useSyncExternalStore(store.subscribe, select, select);
+  return useMemo(() => new URLSearchParams(search), [search]);
+}
+
+/** Drop-in replacement for useState whose value lives in the query string. */
+export function useUrlParam<T>(spec: ParamSpec<T>): [T, (action: SetStateAction<T>) => void] {
+  const store = useParamStoreRef();
+  const raw = useSearchKeys([spec.key]).get(spec.key);
+  // Keyed on the raw string so list values keep their identity while other
+  // parameters change.
+  const value = useMemo(() => {
+    if (raw === null) return spec.defaultValue;
+    return spec.codec.parse(raw) ?? spec.defaultValue;
+  }, [spec, raw]);
+
+  const setValue = useCallback(
+    (action: SetStateAction<T>) => {
+      store.current.update((next) => {
+        const prev = readParam(spec, next);
+        const nextValue = typeof action === "function" ? (action as (prev: T) => T)(prev) : action;
+        writeParam(spec, next, nextValue);
+      });
+    },
+    [spec, store],
+  );
+
+  return [value, setValue];
+}
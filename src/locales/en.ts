@@ -0,0 +1,319 @@
+import type { Messages } from "../lib/i18n";
+
+export const en: Messages = {
+  notes: {
+    svd: {
+      heading: "How to explain this slide",
+      points: [
+        "1) Original image is a matrix A.",
+        "2) SVD splits A into ordered components by strength (singular values).",
+        "3) Keep only first k components to compress data.",
+        "4) Residual map shows what information gets lost.",
+      ],
+    },
+    cnn: {
+      heading: "How to explain this slide",
+      points: [
+        "1) Choose a detector (eye, mouth, or edge).",
+        "2) Bright cells in the conv map mean this feature is present there.",
+        '3) "Top activations" are the model\'s strongest evidence locations.',
+        "4) Pooling and dropout keep signal while improving robustness.",
+      ],
+    },
+    rnn: {
+      heading: "How to explain this slide",
+      points: [
+        "1) Each cell gets current token and previous hidden state.",
+        "2) Hidden state carries context across time.",
+        "3) Output probabilities estimate the next token.",
+        "4) Memory influence bars show how strongly each past token still affects the current state.",
+      ],
+    },
+    llm: {
+      heading: "How to narrate this",
+      points: [
+        '1) Orange head answers a grammar question: "which earlier word helps parse this word?"',
+        '2) Blue head answers a meaning question: "which earlier word is about the same idea?"',
+        "3) Blend slider combines both answers into one final attention row.",
+        "4) That merged row builds context used for next-token prediction.",
+        "This demo is calibrated to this example sentence, so model prediction stays aligned with the true next word.",
+      ],
+    },
+    llmflow: {
+      heading: "How to present this",
+      points: [
+        "Read left-to-right: text in, token out.",
+        "Highlight that only one token is chosen each loop.",
+        "Looping this process is what creates full sentences.",
+        "Use the active stage panel below to explain each step in plain English.",
+      ],
+    },
+  },
+
+  intros: {
+    pca: "This view uses precomputed PCA presets so the demo stays fast: 784D images compressed to 6, 12, 14, 18, or 30 principal components.",
+    svd: "Real SVD decomposition of an image-like matrix. Build rank-k reconstruction progressively to show how a few singular components keep most structure.",
+    cnn: 'Instead of "raw pixels", each conv map is a feature detector. Use the detector selector to show eyes, mouth line, and face-edge evidence separately.',
+    rnn: "This unrolled RNN reads one token per timestep, updates hidden memory, and predicts the next token. You can narrate how memory flows left to right.",
+    llm: "This view separates two attention mechanisms: a syntax head (subject/verb links) and a semantic head (topic words), then shows exactly how they merge.",
+    relu: 'ReLU is the default activation in modern deep learning. Its kink at zero is non-differentiable, and the flat left half (gradient = 0) is the root cause of the "dying neuron" problem.',
+    gd: "Watch {sgd} and {adam} race down an asymmetric loss bowl. SGD uses a single learning rate and oscillates in the steep y direction; Adam adapts its step size per parameter and glides straight toward the minimum.",
+  },
+
+  scenes: {
+    pca: [
+      { title: "PCA: digits in PC space" },
+      { title: "PCA: only 6 components", notes: ["Reconstructions blur, but k-NN accuracy stays surprisingly high."] },
+      { title: "PCA: all 30 components" },
+    ],
+    svd: [
+      { title: "SVD: a rank-1 sketch", notes: ["One outer product already recovers the outline of the face."] },
+      { title: "SVD: rank 4 keeps most structure" },
+      { title: "SVD: near-lossless at rank 8", notes: ["Late components only fix small details; compare their sigma with sigma_1."] },
+    ],
+    cnn: [
+      { title: "CNN: eye spot detector" },
+      { title: "CNN: mouth line detector" },
+      { title: "CNN: edges with heavy dropout" },
+    ],
+    rnn: [
+      { title: "RNN: reading h-e-l-l-o" },
+      { title: "RNN: weak recurrent memory", notes: ["Influence bars collapse onto the latest token."] },
+      { title: "RNN: strong recurrent memory" },
+    ],
+    llm: [
+      { title: "LLM: two attention heads" },
+      { title: "LLM: syntax head only" },
+      { title: "LLM: semantic head only" },
+      { title: "LLM: high temperature", notes: ["The distribution flattens; sampling becomes riskier."] },
+    ],
+    llmflow: [{ title: "LLM end-to-end flow" }, { title: "LLM flow: sampling" }],
+    relu: [
+      { title: "ReLU and Leaky ReLU" },
+      { title: "Dying ReLU", notes: ["A negative bias pushes most neurons into the dead zone, where the gradient is exactly zero."] },
+      { title: "Smooth alternatives" },
+    ],
+    gd: [
+      { title: "SGD vs Adam race" },
+      {
+        title: "SGD on the edge of stability",
+        notes: ["With η = 0.7 the steep y direction overshoots on every step.", "Point at the zig-zag before switching Adam back on."],
+      },
+      { title: "Adam with weak momentum", notes: ["Lower β₁ makes Adam react faster but wobble more."] },
+    ],
+  },
+
+  tours: {
+    "energy-sweep": {
+      title: "How many components are enough?",
+      steps: [
+        {
+          title: "Start from one component",
+          say: "A single outer product sigma_1 * u_1 * v_1^T already sketches the outline of the face.",
+        },
+        {
+          title: "Sweep k until 90% of the energy",
+          say: "Energy is the sum of sigma squared. The first few singular values carry 90% of it, so a handful of components keeps most of the picture.",
+        },
+        {
+          title: "What is still missing",
+          say: "The residual shows the detail the remaining components would add back. Step k forward with the arrow keys and watch it fade.",
+        },
+      ],
+    },
+    "sgd-vs-adam": {
+      title: "Why Adam beats SGD here",
+      steps: [
+        {
+          title: "SGD with a large step",
+          say: "With η = 0.7 every step overshoots in the steep y direction, so SGD zig-zags across the valley instead of sliding down it.",
+        },
+        {
+          title: "The oscillation in the loss",
+          say: "The loss curve shows the same thing: it drops fast along x but keeps bouncing because y never settles.",
+        },
+        {
+          title: "Switch on Adam",
+          say: "From the same start, Adam divides each step by the running size of its gradient. The steep y direction gets a small step, the flat x direction a large one, and it glides to the minimum.",
+        },
+      ],
+    },
+  },
+
+  app: {
+    intro:
+      "Interactive intuition builders for your presentation: matrix factorization, dimensionality reduction on handwritten digit data, and optimization, plus CNN, RNN, and LLM attention.",
+    concepts: "Concepts",
+    present: "Present",
+    audienceWindow: "Audience window",
+    handout: "Handout",
+    handoutTitle: "Printable notes for {concept}",
+    pauseAnimations: "Pause animations",
+    resumeAnimations: "Resume animations",
+    rememberSettings: "Remember settings",
+    rememberSettingsTitle: "Keep each tab's settings in this browser across reloads",
+    resetToDefaults: "Reset to defaults",
+    resetTitle: "Reset {concept} to its defaults",
+  },
+  dataTable: "Data: {caption}",
+  llmFlow: {
+    intro: "This is the full lifecycle for one generated token. During generation, steps 4 to 7 repeat many times.",
+    steps: [
+      {
+        title: "1) User Prompt",
+        text: "Raw text enters the model context window.",
+        detail: "Example: 'Explain PCA in simple terms'.",
+        explain: "The model starts with plain text, not meaning. It must first convert text to internal tokens.",
+      },
+      {
+        title: "2) Tokenization",
+        text: "Text is split into model tokens/subwords.",
+        detail: "Words become IDs the model can process numerically.",
+        explain: "A word can be one token or multiple pieces. The model predicts the next token piece-by-piece.",
+      },
+      {
+        title: "3) Embedding + Position",
+        text: "Each token ID maps to a vector; position is added.",
+        detail: "Now each token is a dense numeric representation.",
+        explain: "Same word in different positions gets a different final representation due to position encoding.",
+      },
+      {
+        title: "4) Transformer Blocks",
+        text: "Repeated attention + feed-forward layers transform context.",
+        detail: "Causal mask prevents looking at future tokens.",
+        explain: "Attention decides which earlier tokens matter for each current token. Feed-forward refines that info.",
+      },
+      {
+        title: "5) Logits",
+        text: "Final hidden state projects to vocabulary scores.",
+        detail: "One score per candidate next token.",
+        explain: "Higher score means the model currently prefers that token more strongly.",
+      },
+      {
+        title: "6) Sampling",
+        text: "Softmax + decoding picks next token.",
+        detail: "Greedy/top-k/top-p/temperature affect creativity.",
+        explain: "Low temperature is safer and more deterministic; high temperature is more diverse but riskier.",
+      },
+      {
+        title: "7) Append + Repeat",
+        text: "Chosen token is appended, process runs again.",
+        detail: "This autoregressive loop generates the response.",
+        explain: "LLMs generate one token at a time until stop condition or max length is reached.",
+      },
+    ],
+    currentStage: "Current stage: {title}",
+    whyItMatters: "Why this matters: {detail}",
+    plainEnglish: "Plain-English explanation: {explain}",
+    exampleHeading: "Concrete example at this step",
+    examplePrompt: 'Prompt fragment: "Researchers analyze data and write ..."',
+    atStage: "At stage",
+    modelIsDoing: "the model is doing: {text}",
+    exampleOutput: "Output of this stage feeds the next stage, and only at stage 6 one token is selected.",
+    figure: "LLM pipeline, stage {stage} of {count}. Arrow keys change the stage.",
+  },
+
+  llm: {
+    roles: {
+      subject: "who is doing the action",
+      verb: "the action word",
+      object: "what receives the action",
+      prep: "a relationship word (like for/from)",
+      connector: "a linking word",
+      adverb: "a modifier word",
+    },
+    topics: {
+      agent: "people/agents",
+      analysis: "analyzing data",
+      writing: "writing outputs",
+      target: "audience/receivers",
+      time: "time/frequency",
+      link: "joining ideas",
+    },
+    currentWord: 'Current word: "{word}"',
+    grammarRole: "Grammar role of current word: {role}",
+    syntaxLookedAt: 'Orange head looked most at "{word}" ({role})',
+    semanticLookedAt: 'Blue head looked most at "{word}"',
+    sharedTheme: "Shared meaning theme: {topic}",
+    futureCells: "Dark cells = future words to the right (model is not allowed to read them).",
+    mergedTarget: "Merged strongest target: {word}",
+    trueNextWord: "True next word in this sentence: {word}",
+    predictedNext: "Predicted next token: {word}",
+    match: "Match: {answer}",
+    yes: "yes",
+    no: "no",
+    outsideCandidates: "(true word is outside current candidate list)",
+    figure: "Attention heads over the first {count} tokens. Arrow keys change the context length.",
+    heatmap: "{head} attention over the first {count} tokens; future tokens are masked",
+    rowsCaption: "Merged attention rows",
+    rowsSummary: 'Query "{query}" attends most to "{target}". Each row sums to 100% over the tokens it may read.',
+    probsCaption: "Next-token probabilities",
+    probsSummary: 'Predicted "{predicted}"; the sentence continues with "{truth}".',
+    status: '{count} tokens of context, query "{query}": predicts "{predicted}" at {pct}%.',
+  },
+
+  relu: {
+    formulas: {
+      relu: { formula: "f(x) = max(0, x)", dFormula: "f ′(x) = 0  (x < 0)   1  (x > 0)" },
+      leaky: { formula: "f(x) = x ≥ 0 ? x : α·x", dFormula: "f ′(x) = 1  (x ≥ 0)   α  (x < 0)" },
+      elu: { formula: "f(x) = x ≥ 0 ? x : α(eˣ − 1)", dFormula: "f ′(x) = 1  (x ≥ 0)   α·eˣ  (x < 0)" },
+      sigmoid: { formula: "σ(x) = 1 / (1 + e⁻ˣ)", dFormula: "σ′(x) = σ(x) · (1 − σ(x))" },
+    },
+    gradients: "Gradients:",
+    figure: "Activation curves at input x = {x}. Arrow keys move the input.",
+    neurons: "{alive} of {count} neurons active",
+    valuesCaption: "Activation values",
+    valuesSummary: "At x = {x}: {values}.",
+    status: "x = {x}: {values}.",
+  },
+  pca: {
+    eigenHelp:
+      "Pixels colored like the left end of the polarity bar pull intensity down, the right end pushes it up, when moving along that principal component.",
+    figure: "PCA on handwritten digits. Arrow keys change the test sample.",
+    scatter: "Scatter of {count} test digits on the first two principal components, colored by digit",
+    meanMinus: "Dataset mean minus 2.2 sigma along PC{pc}",
+    mean: "Dataset mean image",
+    meanPlus: "Dataset mean plus 2.2 sigma along PC{pc}",
+    original: "Original test image, digit {digit}",
+    reconstruction: "Reconstruction from {k} components",
+    presetsCaption: "Presets",
+    presetsSummary: "{k} of {dim} dimensions explain {pct}% of the variance.",
+    scatterCaption: "Scatter points (PC1, PC2)",
+    status: "Sample {index}, digit {digit}. {k} components explain {pct}% of the variance.",
+  },
+  svd: {
+    figure: "Rank-{k} SVD reconstruction. Arrow keys change the rank.",
+    original: "Original matrix A, {n} by {n} heatmap",
+    reconstruction: "Rank-{k} reconstruction heatmap",
+    residual: "Residual heatmap at rank {k}",
+    component: "Component {i} heatmap, signed",
+    valuesCaption: "Singular values",
+    valuesSummary: "The first {k} of {count} components keep {pct}% of the energy.",
+    status: "Rank {k}: {pct}% of energy kept.",
+  },
+  cnn: {
+    figure: "{kernel} scanning position {pos} of {count}. Arrow keys move the kernel.",
+    input: "Input image, {size} by {size}, kernel window at ({x}, {y})",
+    featureMap: "{kernel} feature map heatmap",
+    pooled: "Max-pooled map, {rows} by {cols}",
+    unitsKept: "{kept} of {count} units kept",
+    vectorCaption: "Pooled feature vector",
+    vectorSummary: "Strongest {kernel} responses: {points}. Dropout keeps {kept} of {count} units at iteration {iteration}.",
+    status: "Kernel at ({x}, {y}): activation {activation}.",
+  },
+  rnn: {
+    figure: "Unrolled RNN at timestep {t} of {count}. Arrow keys change the timestep.",
+    hiddenState: "Hidden state values: {values}",
+    probsCaption: "Next-token probabilities at timestep {t}",
+    probsSummary: 'After "{text}", the model predicts "{token}" with {pct}%.',
+    influenceCaption: "Memory influence on h{t}",
+    status: 'Timestep {t}: read "{token}", predicts "{predicted}" at {pct}%.',
+  },
+  gd: {
+    figure: "Loss surface with SGD and Adam paths at step {step} of {count}. Arrow keys step through the run.",
+    lossChart: "Loss by step for SGD and Adam, marker at step {step}",
+    lossCaption: "Loss per step",
+    lossSummary: "Final loss: SGD {sgd}, Adam {adam}.",
+    status: "Step {step} of {count}: SGD loss {sgd}, Adam loss {adam}.",
+  },
+};
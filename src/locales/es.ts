@@ -0,0 +1,319 @@
+import type { Messages } from "../lib/i18n";
+
+export const es: Messages = {
+  notes: {
+    svd: {
+      heading: "Cómo explicar esta diapositiva",
+      points: [
+        "1) La imagen original es una matriz A.",
+        "2) La SVD descompone A en componentes ordenadas por intensidad (valores singulares).",
+        "3) Conservar solo las primeras k componentes comprime los datos.",
+        "4) El mapa de residuo muestra qué información se pierde.",
+      ],
+    },
+    cnn: {
+      heading: "Cómo explicar esta diapositiva",
+      points: [
+        "1) Elige un detector (ojo, boca o borde).",
+        "2) Las celdas brillantes del mapa de convolución indican que el rasgo está presente ahí.",
+        "3) Las «activaciones máximas» son los lugares donde el modelo encuentra más evidencia.",
+        "4) El pooling y el dropout conservan la señal y hacen el modelo más robusto.",
+      ],
+    },
+    rnn: {
+      heading: "Cómo explicar esta diapositiva",
+      points: [
+        "1) Cada celda recibe el token actual y el estado oculto anterior.",
+        "2) El estado oculto transporta el contexto a lo largo del tiempo.",
+        "3) Las probabilidades de salida estiman el siguiente token.",
+        "4) Las barras de influencia de memoria muestran cuánto sigue afectando cada token pasado al estado actual.",
+      ],
+    },
+    llm: {
+      heading: "Cómo narrarlo",
+      points: [
+        "1) La cabeza naranja responde una pregunta gramatical: «¿qué palabra anterior ayuda a analizar esta?»",
+        "2) La cabeza azul responde una pregunta de significado: «¿qué palabra anterior trata de la misma idea?»",
+        "3) El control de mezcla combina ambas respuestas en una única fila de atención.",
+        "4) Esa fila combinada construye el contexto que se usa para predecir el siguiente token.",
+        "La demo está calibrada para esta frase de ejemplo, así que la predicción coincide con la siguiente palabra real.",
+      ],
+    },
+    llmflow: {
+      heading: "Cómo presentarlo",
+      points: [
+        "Lee de izquierda a derecha: entra texto, sale un token.",
+        "Destaca que en cada vuelta se elige un solo token.",
+        "Repetir este proceso es lo que genera frases completas.",
+        "Usa el panel de la etapa activa, más abajo, para explicar cada paso con palabras sencillas.",
+      ],
+    },
+  },
+
+  intros: {
+    pca: "Esta vista usa configuraciones de PCA precalculadas para que la demo sea rápida: imágenes de 784 dimensiones comprimidas a 6, 12, 14, 18 o 30 componentes principales.",
+    svd: "Descomposición SVD real de una matriz con forma de imagen. Construye la reconstrucción de rango k paso a paso para mostrar cómo unas pocas componentes singulares conservan casi toda la estructura.",
+    cnn: "En lugar de «píxeles crudos», cada mapa de convolución es un detector de rasgos. Usa el selector de detector para mostrar por separado la evidencia de ojos, boca y bordes de la cara.",
+    rnn: "Esta RNN desplegada lee un token por paso de tiempo, actualiza su memoria oculta y predice el siguiente token. Puedes narrar cómo fluye la memoria de izquierda a derecha.",
+    llm: "Esta vista separa dos mecanismos de atención: una cabeza sintáctica (vínculos sujeto/verbo) y una cabeza semántica (palabras del tema), y muestra exactamente cómo se combinan.",
+    relu: "ReLU es la activación por defecto en el aprendizaje profundo moderno. Su quiebre en cero no es derivable, y la mitad izquierda plana (gradiente = 0) es la causa del problema de las «neuronas muertas».",
+    gd: "Mira cómo {sgd} y {adam} compiten bajando por un cuenco de pérdida asimétrico. SGD usa una única tasa de aprendizaje y oscila en la dirección y, que es empinada; Adam adapta el tamaño del paso a cada parámetro y se desliza directo hacia el mínimo.",
+  },
+
+  scenes: {
+    pca: [
+      { title: "PCA: dígitos en el espacio de componentes" },
+      { title: "PCA: solo 6 componentes", notes: ["Las reconstrucciones se difuminan, pero la precisión de k-NN sigue sorprendentemente alta."] },
+      { title: "PCA: las 30 componentes" },
+    ],
+    svd: [
+      { title: "SVD: un boceto de rango 1", notes: ["Un solo producto exterior ya recupera el contorno de la cara."] },
+      { title: "SVD: el rango 4 conserva casi toda la estructura" },
+      { title: "SVD: casi sin pérdida con rango 8", notes: ["Las últimas componentes solo corrigen detalles pequeños; compara su sigma con sigma_1."] },
+    ],
+    cnn: [
+      { title: "CNN: detector de ojos" },
+      { title: "CNN: detector de la línea de la boca" },
+      { title: "CNN: bordes con mucho dropout" },
+    ],
+    rnn: [
+      { title: "RNN: leyendo h-e-l-l-o" },
+      { title: "RNN: memoria recurrente débil", notes: ["Las barras de influencia se concentran en el último token."] },
+      { title: "RNN: memoria recurrente fuerte" },
+    ],
+    llm: [
+      { title: "LLM: dos cabezas de atención" },
+      { title: "LLM: solo la cabeza sintáctica" },
+      { title: "LLM: solo la cabeza semántica" },
+      { title: "LLM: temperatura alta", notes: ["La distribución se aplana; el muestreo se vuelve más arriesgado."] },
+    ],
+    llmflow: [{ title: "LLM: el flujo completo" }, { title: "Flujo del LLM: muestreo" }],
+    relu: [
+      { title: "ReLU y Leaky ReLU" },
+      { title: "ReLU moribunda", notes: ["Un sesgo negativo empuja a la mayoría de las neuronas a la zona muerta, donde el gradiente es exactamente cero."] },
+      { title: "Alternativas suaves" },
+    ],
+    gd: [
+      { title: "Carrera entre SGD y Adam" },
+      {
+        title: "SGD al borde de la estabilidad",
+        notes: ["Con η = 0,7 la dirección y, empinada, se pasa de largo en cada paso.", "Señala el zigzag antes de volver a activar Adam."],
+      },
+      { title: "Adam con momento débil", notes: ["Un β₁ menor hace que Adam reaccione más rápido pero oscile más."] },
+    ],
+  },
+
+  tours: {
+    "energy-sweep": {
+      title: "¿Cuántas componentes bastan?",
+      steps: [
+        {
+          title: "Empieza con una componente",
+          say: "Un solo producto exterior sigma_1 * u_1 * v_1^T ya esboza el contorno de la cara.",
+        },
+        {
+          title: "Recorre k hasta el 90 % de la energía",
+          say: "La energía es la suma de los sigma al cuadrado. Los primeros valores singulares concentran el 90 %, así que un puñado de componentes conserva casi toda la imagen.",
+        },
+        {
+          title: "Lo que todavía falta",
+          say: "El residuo muestra el detalle que devolverían las componentes restantes. Avanza k con las flechas del teclado y mira cómo se desvanece.",
+        },
+      ],
+    },
+    "sgd-vs-adam": {
+      title: "Por qué Adam le gana a SGD aquí",
+      steps: [
+        {
+          title: "SGD con un paso grande",
+          say: "Con η = 0,7 cada paso se pasa de largo en la dirección y, que es empinada, así que SGD zigzaguea de un lado a otro del valle en lugar de bajar por él.",
+        },
+        {
+          title: "La oscilación en la pérdida",
+          say: "La curva de pérdida muestra lo mismo: baja rápido a lo largo de x pero sigue rebotando porque y nunca se asienta.",
+        },
+        {
+          title: "Activa Adam",
+          say: "Desde el mismo punto de partida, Adam divide cada paso por el tamaño acumulado de su gradiente. La dirección y, empinada, recibe un paso pequeño, y la dirección x, plana, uno grande, así que se desliza hasta el mínimo.",
+        },
+      ],
+    },
+  },
+
+  app: {
+    intro:
+      "Herramientas interactivas para construir intuición en tu presentación: factorización de matrices, reducción de dimensionalidad sobre dígitos manuscritos y optimización, además de CNN, RNN y la atención de los LLM.",
+    concepts: "Conceptos",
+    present: "Presentar",
+    audienceWindow: "Ventana del público",
+    handout: "Apuntes",
+    handoutTitle: "Apuntes imprimibles de {concept}",
+    pauseAnimations: "Pausar animaciones",
+    resumeAnimations: "Reanudar animaciones",
+    rememberSettings: "Recordar ajustes",
+    rememberSettingsTitle: "Guarda los ajustes de cada pestaña en este navegador entre recargas",
+    resetToDefaults: "Restablecer valores",
+    resetTitle: "Devuelve {concept} a sus valores por defecto",
+  },
+  dataTable: "Datos: {caption}",
+  llmFlow: {
+    intro: "Este es el ciclo completo para generar un token. Durante la generación, los pasos 4 a 7 se repiten muchas veces.",
+    steps: [
+      {
+        title: "1) Prompt del usuario",
+        text: "El texto sin procesar entra en la ventana de contexto del modelo.",
+        detail: "Ejemplo: «Explica PCA en términos sencillos».",
+        explain: "El modelo empieza con texto plano, no con significado. Primero debe convertir el texto en tokens internos.",
+      },
+      {
+        title: "2) Tokenización",
+        text: "El texto se divide en tokens o subpalabras del modelo.",
+        detail: "Las palabras se convierten en IDs que el modelo puede procesar numéricamente.",
+        explain: "Una palabra puede ser un token o varios fragmentos. El modelo predice el siguiente token fragmento a fragmento.",
+      },
+      {
+        title: "3) Embedding + posición",
+        text: "Cada ID de token se asigna a un vector y se le suma la posición.",
+        detail: "Ahora cada token es una representación numérica densa.",
+        explain: "La misma palabra en distintas posiciones obtiene una representación final distinta gracias a la codificación posicional.",
+      },
+      {
+        title: "4) Bloques Transformer",
+        text: "Capas repetidas de atención y feed-forward transforman el contexto.",
+        detail: "La máscara causal impide mirar tokens futuros.",
+        explain: "La atención decide qué tokens anteriores importan para cada token actual. La capa feed-forward refina esa información.",
+      },
+      {
+        title: "5) Logits",
+        text: "El último estado oculto se proyecta a puntuaciones sobre el vocabulario.",
+        detail: "Una puntuación por cada posible siguiente token.",
+        explain: "Una puntuación más alta significa que el modelo prefiere ese token con más fuerza en este momento.",
+      },
+      {
+        title: "6) Muestreo",
+        text: "Softmax y la decodificación eligen el siguiente token.",
+        detail: "Greedy, top-k, top-p y la temperatura influyen en la creatividad.",
+        explain: "Una temperatura baja es más segura y determinista; una alta es más variada pero más arriesgada.",
+      },
+      {
+        title: "7) Añadir y repetir",
+        text: "El token elegido se añade y el proceso vuelve a empezar.",
+        detail: "Este bucle autorregresivo genera la respuesta.",
+        explain: "Los LLM generan un token cada vez hasta que se cumple una condición de parada o se alcanza la longitud máxima.",
+      },
+    ],
+    currentStage: "Etapa actual: {title}",
+    whyItMatters: "Por qué importa: {detail}",
+    plainEnglish: "Explicación sencilla: {explain}",
+    exampleHeading: "Ejemplo concreto en este paso",
+    examplePrompt: "Fragmento del prompt: «Researchers analyze data and write ...»",
+    atStage: "En la etapa",
+    modelIsDoing: "el modelo está haciendo: {text}",
+    exampleOutput: "La salida de cada etapa alimenta la siguiente, y solo en la etapa 6 se elige un token.",
+    figure: "Proceso de un LLM, etapa {stage} de {count}. Las flechas cambian de etapa.",
+  },
+
+  llm: {
+    roles: {
+      subject: "quién realiza la acción",
+      verb: "la palabra de acción",
+      object: "lo que recibe la acción",
+      prep: "una palabra de relación (como for/from)",
+      connector: "una palabra de enlace",
+      adverb: "una palabra modificadora",
+    },
+    topics: {
+      agent: "personas/agentes",
+      analysis: "análisis de datos",
+      writing: "redacción de resultados",
+      target: "público/destinatarios",
+      time: "tiempo/frecuencia",
+      link: "unión de ideas",
+    },
+    currentWord: "Palabra actual: «{word}»",
+    grammarRole: "Función gramatical de la palabra actual: {role}",
+    syntaxLookedAt: "La cabeza naranja miró sobre todo a «{word}» ({role})",
+    semanticLookedAt: "La cabeza azul miró sobre todo a «{word}»",
+    sharedTheme: "Tema de significado compartido: {topic}",
+    futureCells: "Celdas oscuras = palabras futuras a la derecha (el modelo no puede leerlas).",
+    mergedTarget: "Objetivo combinado más fuerte: {word}",
+    trueNextWord: "Palabra siguiente real en esta frase: {word}",
+    predictedNext: "Token siguiente predicho: {word}",
+    match: "Coincide: {answer}",
+    yes: "sí",
+    no: "no",
+    outsideCandidates: "(la palabra real no está en la lista actual de candidatos)",
+    figure: "Cabezas de atención sobre los primeros {count} tokens. Las flechas cambian la longitud del contexto.",
+    heatmap: "Atención de {head} sobre los primeros {count} tokens; los tokens futuros están enmascarados",
+    rowsCaption: "Filas de atención combinadas",
+    rowsSummary: "La consulta «{query}» atiende sobre todo a «{target}». Cada fila suma 100 % sobre los tokens que puede leer.",
+    probsCaption: "Probabilidades del token siguiente",
+    probsSummary: "Predice «{predicted}»; la frase continúa con «{truth}».",
+    status: "{count} tokens de contexto, consulta «{query}»: predice «{predicted}» con un {pct} %.",
+  },
+
+  relu: {
+    formulas: {
+      relu: { formula: "f(x) = max(0, x)", dFormula: "f ′(x) = 0 si x < 0;  1 si x > 0" },
+      leaky: { formula: "f(x) = x si x ≥ 0;  α·x si x < 0", dFormula: "f ′(x) = 1 si x ≥ 0;  α si x < 0" },
+      elu: { formula: "f(x) = x si x ≥ 0;  α(eˣ − 1) si x < 0", dFormula: "f ′(x) = 1 si x ≥ 0;  α·eˣ si x < 0" },
+      sigmoid: { formula: "σ(x) = 1 / (1 + e⁻ˣ)", dFormula: "σ′(x) = σ(x) · (1 − σ(x))" },
+    },
+    gradients: "Gradientes:",
+    figure: "Curvas de activación en la entrada x = {x}. Las flechas mueven la entrada.",
+    neurons: "{alive} de {count} neuronas activas",
+    valuesCaption: "Valores de activación",
+    valuesSummary: "En x = {x}: {values}.",
+    status: "x = {x}: {values}.",
+  },
+  pca: {
+    eigenHelp:
+      "Al moverse a lo largo de esa componente principal, los píxeles del color del extremo izquierdo de la barra de polaridad bajan la intensidad y los del extremo derecho la suben.",
+    figure: "PCA sobre dígitos manuscritos. Las flechas cambian la muestra de prueba.",
+    scatter: "Dispersión de {count} dígitos de prueba sobre las dos primeras componentes principales, coloreados por dígito",
+    meanMinus: "Media del conjunto menos 2,2 sigma a lo largo de PC{pc}",
+    mean: "Imagen media del conjunto",
+    meanPlus: "Media del conjunto más 2,2 sigma a lo largo de PC{pc}",
+    original: "Imagen de prueba original, dígito {digit}",
+    reconstruction: "Reconstrucción con {k} componentes",
+    presetsCaption: "Configuraciones",
+    presetsSummary: "{k} de {dim} dimensiones explican el {pct} % de la varianza.",
+    scatterCaption: "Puntos de la dispersión (PC1, PC2)",
+    status: "Muestra {index}, dígito {digit}. {k} componentes explican el {pct} % de la varianza.",
+  },
+  svd: {
+    figure: "Reconstrucción SVD de rango {k}. Las flechas cambian el rango.",
+    original: "Matriz original A, mapa de calor de {n} por {n}",
+    reconstruction: "Mapa de calor de la reconstrucción de rango {k}",
+    residual: "Mapa de calor del residuo con rango {k}",
+    component: "Mapa de calor de la componente {i}, con signo",
+    valuesCaption: "Valores singulares",
+    valuesSummary: "Las primeras {k} de {count} componentes conservan el {pct} % de la energía.",
+    status: "Rango {k}: se conserva el {pct} % de la energía.",
+  },
+  cnn: {
+    figure: "{kernel} en la posición {pos} de {count}. Las flechas mueven el kernel.",
+    input: "Imagen de entrada de {size} por {size}, ventana del kernel en ({x}, {y})",
+    featureMap: "Mapa de calor de rasgos de {kernel}",
+    pooled: "Mapa tras max-pooling, {rows} por {cols}",
+    unitsKept: "{kept} de {count} unidades conservadas",
+    vectorCaption: "Vector de rasgos agrupado",
+    vectorSummary: "Respuestas más fuertes de {kernel}: {points}. El dropout conserva {kept} de {count} unidades en la iteración {iteration}.",
+    status: "Kernel en ({x}, {y}): activación {activation}.",
+  },
+  rnn: {
+    figure: "RNN desplegada en el paso de tiempo {t} de {count}. Las flechas cambian el paso de tiempo.",
+    hiddenState: "Valores del estado oculto: {values}",
+    probsCaption: "Probabilidades del token siguiente en el paso de tiempo {t}",
+    probsSummary: "Tras «{text}», el modelo predice «{token}» con un {pct} %.",
+    influenceCaption: "Influencia de la memoria en h{t}",
+    status: "Paso de tiempo {t}: lee «{token}», predice «{predicted}» con un {pct} %.",
+  },
+  gd: {
+    figure: "Superficie de pérdida con las trayectorias de SGD y Adam en el paso {step} de {count}. Las flechas recorren la ejecución.",
+    lossChart: "Pérdida por paso de SGD y Adam, marcador en el paso {step}",
+    lossCaption: "Pérdida por paso",
+    lossSummary: "Pérdida final: SGD {sgd}, Adam {adam}.",
+    status: "Paso {step} de {count}: pérdida de SGD {sgd}, pérdida de Adam {adam}.",
+  },
+};
@@ -1,8 +1,12 @@
 import React from "react";
 import { createRoot } from "react-dom/client";
 import App from "./App";
+import "./concepts";
+import { registerServiceWorker } from "./lib/serviceWorker";
 import "./styles.css";
 
+registerServiceWorker();
+
 createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
     <App />
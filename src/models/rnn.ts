@@ -0,0 +1,78 @@
+import { distance, fromFunction, matVec, maxValue, softmax } from "../lib/math";
+import { createRng } from "../lib/random";
+
+// The toy character RNN behind the RNN tab. It has no React in it so the
+// compute worker can run it too.
+
+export const VOCAB = ["h", "e", "l", "o", " "] as const;
+export const TOKENS = ["h", "e", "l", "l", "o", " "] as const;
+export const HIDDEN = 8;
+
+export type VocabToken = (typeof VOCAB)[number];
+
+export type RnnWeights = ReturnType<typeof buildWeights>;
+
+export type RnnSettings = {
+  seed: number;
+  recurrentGain: number;
+  inputGain: number;
+};
+
+function tokenVec(token: VocabToken) {
+  return VOCAB.map((v) => (v === token ? 1 : 0));
+}
+
+// Untrained weights, uniform in ±scale. The recurrent matrix stays small so
+// the memory slider, not the draw, decides whether the state saturates.
+export function buildWeights(seed: number) {
+  const rng = createRng(seed);
+  const draw = (scale: number) => () => rng.uniform(-scale, scale);
+  const wxh = fromFunction(HIDDEN, VOCAB.length, draw(0.7));
+  const whh = fromFunction(HIDDEN, HIDDEN, draw(0.22));
+  const why = fromFunction(VOCAB.length, HIDDEN, draw(0.45));
+  const bh = Array.from({ length: HIDDEN }, draw(0.1));
+  const by = Array.from({ length: VOCAB.length }, draw(0.1));
+  return { wxh, whh, why, bh, by };
+}
+
+function stepRnn(x: number[], hPrev: number[], w: RnnWeights, recurrentGain: number, inputGain: number) {
+  const fromInput = matVec(w.wxh, x);
+  const fromMemory = matVec(w.whh, hPrev);
+  const h = w.bh.map((b, i) => Math.tanh(b + fromInput[i] * inputGain + fromMemory[i] * recurrentGain));
+  const logits = matVec(w.why, h).map((v, i) => v + w.by[i]);
+  return { h, probs: softmax(logits) };
+}
+
+export function runSequence(tokens: readonly VocabToken[], w: RnnWeights, recurrentGain: number, inputGain: number) {
+  const states: number[][] = [];
+  const probs: number[][] = [];
+  let h = Array.from({ length: HIDDEN }, () => 0);
+  for (let i = 0; i < tokens.length; i += 1) {
+    const x = tokenVec(tokens[i]);
+    const out = stepRnn(x, h, w, recurrentGain, inputGain);
+    h = out.h;
+    states.push([...h]);
+    probs.push(out.probs);
+  }
+  return { states, probs };
+}
+
+/**
+ * How far h_t moves when each earlier token is replaced by a space, scaled so
+ * the largest is 1. Tokens after t have not been read and score 0. One full
+ * rerun of the sequence per token, so this is what the worker is for.
+ */
+export function memoryInfluence(settings: RnnSettings, t: number, onProgress?: (fraction: number) => void) {
+  const weights = buildWeights(settings.seed);
+  const baseState = runSequence(TOKENS, weights, settings.recurrentGain, settings.inputGain).states[t];
+  const raw = TOKENS.map((_, idx) => {
+    if (idx > t) return 0;
+    const modified = [...TOKENS] as VocabToken[];
+    modified[idx] = " ";
+    const alt = runSequence(modified, weights, settings.recurrentGain, settings.inputGain);
+    onProgress?.((idx + 1) / (t + 1));
+    return distance(baseState, alt.states[t]);
+  });
+  const max = maxValue(raw);
+  return raw.map((v) => v / max);
+}
@@ -0,0 +1,21 @@
+import { type TaskName, type WorkerRequest, type WorkerResponse, runTaskSync } from "./tasks";
+
+// One pool worker. It runs one task at a time and always answers; the pool
+// drops answers nobody waits for any more, and terminates the worker only if a
+// cancelled task runs on too long, so tasks need no cancellation checks.
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage: (message: WorkerResponse) => void;
+};
+
+scope.onmessage = ({ data: { id, task, input } }) => {
+  try {
+    const value = runTaskSync(task as TaskName, input as never, {
+      progress: (fraction) => scope.postMessage({ id, type: "progress", fraction }),
+    });
+    scope.postMessage({ id, type: "result", value });
+  } catch (error) {
+    scope.postMessage({ id, type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,33 @@
+import { type Matrix, svd } from "../lib/math";
+import { type RnnSettings, memoryInfluence } from "../models/rnn";
+
+// Computations a view may hand to the compute pool (`src/lib/compute.ts`).
+// Inputs and outputs cross the worker boundary by structured clone, so they
+// are plain data: numbers, arrays, typed arrays and objects of those.
+
+export type TaskContext = {
+  /** Reports how much of the task is done, from 0 to 1. */
+  progress: (fraction: number) => void;
+};
+
+export const TASKS = {
+  svd: (image: Matrix) => svd(image),
+  rnnInfluence: (input: RnnSettings & { t: number }, context: TaskContext) =>
+    memoryInfluence(input, input.t, context.progress),
+} satisfies Record<string, (input: never, context: TaskContext) => unknown>;
+
+export type TaskName = keyof typeof TASKS;
+export type TaskInput<K extends TaskName> = Parameters<(typeof TASKS)[K]>[0];
+export type TaskOutput<K extends TaskName> = ReturnType<(typeof TASKS)[K]>;
+
+export type WorkerRequest = { id: number; task: TaskName; input: unknown };
+
+export type WorkerResponse =
+  | { id: number; type: "progress"; fraction: number }
+  | { id: number; type: "result"; value: unknown }
+  | { id: number; type: "error"; message: string };
+
+export function runTaskSync<K extends TaskName>(task: K, input: TaskInput<K>, context: TaskContext): TaskOutput<K> {
+  const run = TASKS[task] as (input: TaskInput<K>, context: TaskContext) => TaskOutput<K>;
+  return run(input, context);
+}
@@ -1,6 +1,7 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
+import { precacheServiceWorker } from "./pwa/precache";
 export default defineConfig({
     base: "./",
-    plugins: [react()],
+    plugins: [react(), precacheServiceWorker()],
 });